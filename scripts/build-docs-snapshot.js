@@ -0,0 +1,125 @@
+/**
+ * Build the offline documentation snapshot shipped with the extension
+ *
+ * Crawls the pages listed in the documentation site's sitemap and writes their sections
+ * (split at h2/h3 headings) to resources/tazapay-docs.json in the format read by
+ * src/docsIndex.ts. Runs before packaging, so every published build carries a snapshot.
+ *
+ * Usage: node scripts/build-docs-snapshot.js [siteUrl]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// Documentation site crawled by default
+const DEFAULT_SITE = 'https://docs.tazapay.com';
+
+// Where the snapshot is written
+const OUTPUT = path.join(__dirname, '..', 'resources', 'tazapay-docs.json');
+
+// Upper bound on crawled pages, so a misconfigured sitemap can't blow up the package
+const MAX_PAGES = 500;
+
+// Pages fetched at the same time
+const CONCURRENCY = 4;
+
+async function main() {
+  const site = new URL(process.argv[2] || DEFAULT_SITE);
+  const urls = (await sitemapUrls(new URL('/sitemap.xml', site)))
+    .filter(url => new URL(url).origin === site.origin)
+    .slice(0, MAX_PAGES);
+  if (urls.length === 0) {
+    throw new Error(`No pages found in the sitemap of ${site.origin}`);
+  }
+
+  const pages = [];
+  for (let i = 0; i < urls.length; i += CONCURRENCY) {
+    const batch = await Promise.all(urls.slice(i, i + CONCURRENCY).map(url => fetchPage(url).catch(error => {
+      console.warn(`Skipping ${url}: ${error.message}`);
+      return undefined;
+    })));
+    pages.push(...batch.filter(page => page && page.sections.length > 0));
+  }
+  if (pages.length === 0) {
+    throw new Error(`None of the ${urls.length} pages of ${site.origin} had any text`);
+  }
+
+  const snapshot = { version: '1', generatedAt: new Date().toISOString(), source: site.host, pages };
+  fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+  fs.writeFileSync(OUTPUT, JSON.stringify(snapshot));
+  console.log(`Wrote ${pages.length} pages from ${site.host} to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+/**
+ * Page URLs listed in a sitemap, following sitemap indexes
+ */
+async function sitemapUrls(url) {
+  const xml = await fetchText(url);
+  const locations = [...xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/g)].map(match => decodeEntities(match[1]));
+  if (/<sitemapindex[\s>]/.test(xml)) {
+    const nested = await Promise.all(locations.map(location => sitemapUrls(new URL(location))));
+    return nested.flat();
+  }
+  return locations;
+}
+
+/**
+ * Fetch a page and split its main content into sections at h2/h3 headings
+ * Text before the first heading becomes a section headed with the page title
+ */
+async function fetchPage(url) {
+  const html = await fetchText(url);
+  const main = (html.match(/<main[\s>][\s\S]*?<\/main>/i) || html.match(/<article[\s>][\s\S]*?<\/article>/i) || [html])[0]
+    .replace(/<(script|style|nav|header|footer|svg)[\s>][\s\S]*?<\/\1>/gi, '');
+  const title = toText((html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i) || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i) || ['', url])[1]);
+
+  const sections = [];
+  const headings = [...main.matchAll(/<h([23])([^>]*)>([\s\S]*?)<\/h\1>/gi)];
+  const intro = toText(main.substring(0, headings.length > 0 ? headings[0].index : main.length).replace(/<h1[\s\S]*?<\/h1>/i, ''));
+  if (intro) {
+    sections.push({ heading: title, text: intro });
+  }
+  headings.forEach((heading, i) => {
+    const end = i + 1 < headings.length ? headings[i + 1].index : main.length;
+    const text = toText(main.substring(heading.index + heading[0].length, end));
+    const anchor = (heading[2].match(/\bid="([^"]+)"/) || [])[1];
+    if (text) {
+      sections.push({ heading: toText(heading[3]), ...(anchor ? { anchor } : {}), text });
+    }
+  });
+
+  return { url, title, sections };
+}
+
+async function fetchText(url) {
+  const response = await fetch(url, { headers: { 'User-Agent': 'tazapay-mcp-docs-snapshot' } });
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Strip tags and collapse whitespace
+ */
+function toText(html) {
+  return decodeEntities(html.replace(/<br\s*\/?>|<\/(p|li|div|tr|pre)>/gi, '\n').replace(/<[^>]+>/g, ' '))
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function decodeEntities(text) {
+  const named = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.substring(2), 16) : parseInt(code.substring(1), 10));
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+main().catch(error => {
+  console.error(`Failed to build the documentation snapshot: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+/**
+ * Documentation Answer Cache
+ *
+ * This module keeps documentation answers in extension storage so repeated questions (the same
+ * onboarding questions asked across a team, or by one developer over a week) are answered
+ * without another network round trip.
+ *
+ * Features:
+ * - Keys built from the normalized question and the service URL it was asked against
+ * - Configurable time-to-live (`tazapay-mcp.answerCache.ttlHours`, 0 disables the cache)
+ * - Entries for other URLs dropped when the environment or server URL changes
+ * - Bounded size, oldest entries evicted first
+ */
+
+import * as vscode from 'vscode';
+import { RAGAnswer } from './ragClient';
+
+// globalState key holding the cached answers
+const CACHE_KEY = 'tazapay.answerCache';
+
+// Maximum number of cached answers
+const MAX_ENTRIES = 500;
+
+/**
+ * A cached answer
+ */
+interface CacheEntry {
+  scope: string;      // Service URL the question was asked against
+  answer: RAGAnswer;  // Answer as returned by the service
+  storedAt: number;   // Time the answer was cached (ms since epoch)
+}
+
+/**
+ * Persistent cache of documentation answers
+ */
+export class AnswerCache {
+  /**
+   * @param context - Extension context whose globalState holds the cache
+   */
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  /**
+   * Look up a cached answer
+   * @param question - Question as asked
+   * @param scope - Service URL the question is sent to
+   * @returns RAGAnswer | undefined - The cached answer (marked as cached), or undefined if missing or expired
+   */
+  get(question: string, scope: string): RAGAnswer | undefined {
+    const ttlMs = this.getTtlMs();
+    if (ttlMs <= 0) {
+      return undefined;
+    }
+
+    const entry = this.getEntries()[cacheKey(question, scope)];
+    if (!entry || Date.now() - entry.storedAt > ttlMs) {
+      return undefined;
+    }
+    return { ...entry.answer, cached: true };
+  }
+
+  /**
+   * Store an answer
+   * @param question - Question as asked
+   * @param scope - Service URL the answer came from
+   * @param answer - Answer to cache
+   */
+  async set(question: string, scope: string, answer: RAGAnswer): Promise<void> {
+    if (this.getTtlMs() <= 0) {
+      return;
+    }
+
+    const entries = this.getEntries();
+    entries[cacheKey(question, scope)] = {
+      scope: normalizeScope(scope),
+      answer: { answer: answer.answer, sources: answer.sources },
+      storedAt: Date.now()
+    };
+
+    // Evict the oldest entries beyond the size limit
+    const keys = Object.keys(entries).sort((a, b) => entries[b].storedAt - entries[a].storedAt);
+    for (const key of keys.slice(MAX_ENTRIES)) {
+      delete entries[key];
+    }
+
+    await this.context.globalState.update(CACHE_KEY, entries);
+  }
+
+  /**
+   * Drop every answer that wasn't fetched from one of the given URLs
+   * Called when the environment or its server URL changes
+   * @param scopes - Service URLs of the active environment
+   */
+  async retainScopes(scopes: string[]): Promise<void> {
+    const retained = scopes.map(normalizeScope);
+    const entries = this.getEntries();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (!retained.includes(entry.scope)) {
+        delete entries[key];
+      }
+    }
+    await this.context.globalState.update(CACHE_KEY, entries);
+  }
+
+  /**
+   * Remove all cached answers
+   * @returns Promise<number> - Number of answers removed
+   */
+  async clear(): Promise<number> {
+    const count = Object.keys(this.getEntries()).length;
+    await this.context.globalState.update(CACHE_KEY, {});
+    return count;
+  }
+
+  private getEntries(): Record<string, CacheEntry> {
+    return { ...this.context.globalState.get<Record<string, CacheEntry>>(CACHE_KEY, {}) };
+  }
+
+  private getTtlMs(): number {
+    const hours = vscode.workspace.getConfiguration('tazapay-mcp').get<number>('answerCache.ttlHours', 24);
+    return hours * 60 * 60 * 1000;
+  }
+}
+
+/**
+ * Build the cache key for a question
+ * Case, surrounding whitespace, repeated spaces and trailing punctuation don't change the key
+ */
+function cacheKey(question: string, scope: string): string {
+  const normalized = question
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s?!.]+$/, '');
+  return `${normalizeScope(scope)}\n${normalized}`;
+}
+
+/**
+ * Normalize a service URL so trailing slashes don't split the cache
+ */
+function normalizeScope(scope: string): string {
+  return scope.replace(/\/+$/, '');
+}
@@ -0,0 +1,517 @@
+/**
+ * TazaPay Chat Participant
+ *
+ * This module implements the @tazapay participant for GitHub Copilot Chat. Plain prompts are
+ * answered from TazaPay's documentation; slash commands route to focused handlers.
+ *
+ * Commands:
+ * - /docs - Answer a documentation question using RAG
+ * - /code - Generate an integration snippet in the workspace's language
+ * - /tool - Run a discovered MCP tool (or list the available tools)
+ * - /webhook - Help with receiving and handling TazaPay webhooks
+ * - /errors - Explain a TazaPay API error and how to fix it
+ *
+ * Earlier turns of the conversation (trimmed to a token budget) and a conversation id are
+ * sent with every documentation query so follow-up questions keep their subject. Answers end
+ * with links to the documentation pages they were drawn from; when the RAG service is unavailable,
+ * answers come from the offline documentation snapshot.
+ */
+
+import { randomUUID } from 'crypto';
+import * as vscode from 'vscode';
+import { EnvironmentManager } from './environments';
+import { describeError } from './errors';
+import { toAbortSignal } from './httpClient';
+import { ExecutionHistory } from './executionHistory';
+import { MCPClient } from './mcpClient';
+import { ConversationTurn, RAGQueryOptions, RAGSource, TazaPayRAGClient } from './ragClient';
+import { formatValidationIssues, ParameterValidationError } from './schemaValidator';
+import { guardToolExecution } from './toolSafety';
+
+/**
+ * Services the chat participant needs from the extension
+ * Clients are passed as getters because they are rebuilt when the environment changes
+ */
+export interface ChatDependencies {
+  getRagClient: () => TazaPayRAGClient;   // Documentation RAG client for the active environment
+  getMcpClient: () => MCPClient | null;   // Connected MCP client (null until authenticated)
+  environments: EnvironmentManager;       // Environment profiles
+  history: ExecutionHistory;              // Execution history for /tool runs
+}
+
+/**
+ * Result metadata used to pick follow-ups for the command that produced the answer
+ */
+interface TazaPayChatResult extends vscode.ChatResult {
+  metadata: {
+    command: string;
+    conversationId: string;  // Carried from turn to turn so RAG can tie follow-ups together
+  };
+}
+
+// Approximate token budget for earlier turns sent with a question (~4 characters per token)
+const HISTORY_TOKEN_BUDGET = 1500;
+const CHARS_PER_TOKEN = 4;
+
+// Help text shown when a command is used without a prompt
+const COMMAND_HELP: Record<string, string> = {
+  docs: `### 📚 /docs - Ask the TazaPay documentation
+
+Ask any question about TazaPay's APIs, payment flows or dashboard.
+
+**Examples:**
+- \`@tazapay /docs How do I create a checkout session?\`
+- \`@tazapay /docs Which currencies are supported for payouts?\``,
+
+  code: `### 💻 /code - Generate integration code
+
+Describe what you want to build and I'll write a snippet in the language of your active editor.
+
+**Examples:**
+- \`@tazapay /code create a payment link for an invoice\`
+- \`@tazapay /code poll the status of a checkout\``,
+
+  tool: `### 🔧 /tool - Run a TazaPay MCP tool
+
+Type the tool name followed by its parameters as JSON. Use \`/tool\` on its own to list the tools available in the active environment.
+
+**Examples:**
+- \`@tazapay /tool\`
+- \`@tazapay /tool get_checkout_status {"id": "chk_123"}\``,
+
+  webhook: `### 🔔 /webhook - Webhook handling help
+
+Ask how to receive, verify and process TazaPay webhook events.
+
+**Examples:**
+- \`@tazapay /webhook How do I verify the signature?\`
+- \`@tazapay /webhook Which event tells me a payment succeeded?\``,
+
+  errors: `### 🩺 /errors - Explain an API error
+
+Paste an error message, error code or HTTP status and I'll explain what it means and how to fix it.
+
+**Examples:**
+- \`@tazapay /errors 401 Unauthorized\`
+- \`@tazapay /errors {"status":"error","message":"invalid currency"}\``
+};
+
+// General help shown for empty prompts or "help"
+const GENERAL_HELP = `### 💡 Try asking:
+- "How do I create a payment?"
+- "What webhook events are available?"
+- "Show me a payment integration example"
+- "How does TazaPay escrow work?"
+
+### ⚡ Commands
+- \`/docs\` - Ask the documentation
+- \`/code\` - Generate integration code in your editor's language
+- \`/tool\` - Run a TazaPay MCP tool
+- \`/webhook\` - Webhook handling help
+- \`/errors\` - Explain an API error
+
+*Note: For detailed technical support, visit [TazaPay Documentation](https://docs.tazapay.com)*`;
+
+// Follow-up suggestions offered after each command
+const FOLLOWUPS: Record<string, vscode.ChatFollowup[]> = {
+  docs: [
+    { prompt: 'How do I create a payment?', label: '💳 Payment Creation', command: 'docs' },
+    { prompt: 'What are the webhook events?', label: '🔔 Webhook Events', command: 'webhook' },
+    { prompt: 'Show me integration examples', label: '💻 Code Examples', command: 'code' }
+  ],
+  code: [
+    { prompt: 'Add error handling and retries to this integration', label: '🛡️ Add Error Handling', command: 'code' },
+    { prompt: 'Write a webhook handler for payment events', label: '🔔 Webhook Handler', command: 'code' },
+    { prompt: '', label: '🔧 Run a Tool Instead', command: 'tool' }
+  ],
+  tool: [
+    { prompt: '', label: '📋 List Available Tools', command: 'tool' },
+    { prompt: 'How do I call this from my backend?', label: '💻 Generate Code', command: 'code' }
+  ],
+  webhook: [
+    { prompt: 'How do I verify the webhook signature?', label: '🔐 Verify Signatures', command: 'webhook' },
+    { prompt: 'Write a webhook handler for payment events', label: '💻 Handler Code', command: 'code' },
+    { prompt: 'What should I do when webhook delivery fails?', label: '🔁 Retries', command: 'webhook' }
+  ],
+  errors: [
+    { prompt: '401 Unauthorized', label: '🔑 Auth Errors', command: 'errors' },
+    { prompt: '429 Too Many Requests', label: '⏱️ Rate Limits', command: 'errors' },
+    { prompt: 'How do I log TazaPay API errors properly?', label: '💻 Error Handling Code', command: 'code' }
+  ]
+};
+
+// What common HTTP statuses mean for TazaPay API calls
+const HTTP_STATUS_HINTS: Record<number, string> = {
+  400: 'The request was malformed or a field has an invalid value. Check the field named in the error message against the API reference.',
+  401: 'The secret key is missing, invalid or belongs to another environment. Make sure you use the key for the environment you are calling (sandbox keys only work against sandbox).',
+  403: 'The key is valid but not allowed to perform this operation. Check the permissions of your account or key in the TazaPay dashboard.',
+  404: 'The resource (payment, checkout, payout...) does not exist in this environment, or the endpoint path is wrong.',
+  409: 'The request conflicts with the current state of the resource, for example a duplicate reference id or an already-completed payment.',
+  422: 'The request was well-formed but failed business validation (unsupported currency, amount limits, missing customer details...).',
+  429: 'Too many requests. Back off and retry after the time given in the Retry-After header.',
+  500: 'TazaPay had an internal error. Retry with backoff; if it persists, contact TazaPay support with the request id.',
+  502: 'A temporary gateway error. Retry with backoff.',
+  503: 'The service is temporarily unavailable. Retry with backoff.'
+};
+
+// Friendly names for the editor languages /code can target
+const LANGUAGE_NAMES: Record<string, string> = {
+  javascript: 'JavaScript',
+  javascriptreact: 'JavaScript',
+  typescript: 'TypeScript',
+  typescriptreact: 'TypeScript',
+  python: 'Python',
+  go: 'Go',
+  java: 'Java',
+  csharp: 'C#',
+  php: 'PHP',
+  ruby: 'Ruby',
+  kotlin: 'Kotlin',
+  swift: 'Swift',
+  rust: 'Rust',
+  shellscript: 'cURL (shell)'
+};
+
+/**
+ * The @tazapay chat participant
+ */
+export class TazaPayChatParticipant implements vscode.Disposable {
+  private participant: vscode.ChatParticipant;
+
+  /**
+   * Create and register the participant
+   * @param context - Extension context (for the icon path)
+   * @param deps - Clients and services used to answer requests
+   */
+  constructor(context: vscode.ExtensionContext, private readonly deps: ChatDependencies) {
+    this.participant = vscode.chat.createChatParticipant('tazapay.assistant', (request, chatContext, stream, token) =>
+      this.handleRequest(request, chatContext, stream, token)
+    );
+
+    // Set the custom TazaPay icon for the chat participant
+    this.participant.iconPath = vscode.Uri.file(context.asAbsolutePath('chat-icon.svg'));
+
+    // Provide follow-up suggestions for the command that produced the last answer
+    this.participant.followupProvider = {
+      provideFollowups(result: TazaPayChatResult) {
+        return FOLLOWUPS[result.metadata?.command] || FOLLOWUPS.docs;
+      }
+    };
+  }
+
+  dispose(): void {
+    this.participant.dispose();
+  }
+
+  /**
+   * Route a chat request to the handler for its slash command
+   * Requests without a command are treated as documentation questions
+   */
+  private async handleRequest(
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<TazaPayChatResult> {
+    const command = request.command || 'docs';
+    const prompt = request.prompt.trim();
+    const conversation = buildConversation(chatContext);
+    const metadata = { command, conversationId: conversation.conversationId };
+    // Stopping the request in the chat UI aborts the network requests made for it
+    const signal = toAbortSignal(token);
+
+    try {
+      // Commands used without a prompt show their help text (except /tool, which lists tools)
+      if (!prompt && command !== 'tool') {
+        stream.markdown(request.command ? COMMAND_HELP[command] : GENERAL_HELP);
+        return { metadata };
+      }
+
+      switch (command) {
+        case 'code':
+          await this.handleCode(prompt, stream, conversation, signal);
+          break;
+        case 'tool':
+          await this.handleTool(prompt, stream, signal);
+          break;
+        case 'webhook':
+          await this.handleWebhook(prompt, stream, conversation, signal);
+          break;
+        case 'errors':
+          await this.handleErrors(prompt, stream, conversation, signal);
+          break;
+        default:
+          await this.handleDocs(prompt, stream, conversation, signal);
+          break;
+      }
+    } catch (error) {
+      if (token.isCancellationRequested) {
+        return { metadata };
+      }
+      console.error('Chat participant error:', error);
+      stream.markdown(`❌ **Error:** I encountered an issue processing your request.
+
+**Troubleshooting:**
+- Make sure you have an internet connection
+- Try rephrasing your question
+- Visit [TazaPay Support](https://support.tazapay.com) for direct help
+
+**Example questions that work:**
+- @tazapay help
+- @tazapay How do I create a payment?
+- @tazapay What are webhook events?`);
+    }
+
+    return { metadata };
+  }
+
+  /**
+   * /docs (and plain prompts): answer from the documentation
+   */
+  private async handleDocs(
+    prompt: string,
+    stream: vscode.ChatResponseStream,
+    conversation: RAGQueryOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (prompt.toLowerCase() === 'help') {
+      stream.markdown(GENERAL_HELP);
+      return;
+    }
+
+    // Show typing indicator while processing the request
+    stream.progress('Processing your TazaPay question...');
+    await this.answer(prompt, conversation, stream, signal);
+
+    // Add contextual follow-up buttons based on the user's question
+    if (prompt.toLowerCase().includes('payment') || prompt.toLowerCase().includes('api')) {
+      stream.button({
+        command: 'tazapay-mcp.generateCode',
+        title: '📝 Generate Code Example',
+        arguments: []
+      });
+    }
+
+    if (prompt.toLowerCase().includes('webhook')) {
+      stream.button({
+        command: 'tazapay-mcp.listTools',
+        title: '🔗 View Webhook Tools',
+        arguments: []
+      });
+    }
+  }
+
+  /**
+   * /code: generate a snippet in the language of the active editor
+   */
+  private async handleCode(
+    prompt: string,
+    stream: vscode.ChatResponseStream,
+    conversation: RAGQueryOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    const languageId = vscode.window.activeTextEditor?.document.languageId || '';
+    const language = LANGUAGE_NAMES[languageId] || 'JavaScript';
+
+    stream.progress(`Writing ${language} integration code...`);
+    await this.answer(
+      `Write ${language} code that uses the TazaPay API to: ${prompt}. ` +
+      `Return a complete, idiomatic ${language} snippet with authentication, error handling and comments.`,
+      conversation,
+      stream,
+      signal
+    );
+
+    stream.button({
+      command: 'tazapay-mcp.generateCode',
+      title: '📝 Generate Code from a Tool Schema',
+      arguments: []
+    });
+  }
+
+  /**
+   * /tool: list discovered tools, or run one with JSON parameters
+   * Input format: `<tool name> [JSON parameters]`
+   */
+  private async handleTool(prompt: string, stream: vscode.ChatResponseStream, signal: AbortSignal): Promise<void> {
+    const client = this.deps.getMcpClient();
+    if (!client || !client.isConnected()) {
+      stream.markdown('🔐 Running tools requires authentication. Add your secret key to connect to TazaPay.');
+      stream.button({ command: 'tazapay-mcp.authenticate', title: '🔑 Authenticate', arguments: [] });
+      return;
+    }
+
+    const tools = client.getAvailableTools();
+    const environment = this.deps.environments.getActive();
+
+    if (!prompt) {
+      stream.markdown(`### 🔧 Tools in ${this.deps.environments.describe()}\n\n`);
+      if (tools.length === 0) {
+        stream.markdown('No tools are available in this environment.');
+        return;
+      }
+      stream.markdown(tools.map(tool => `- \`${tool.name}\` - ${tool.description}`).join('\n'));
+      stream.markdown('\n\nRun one with `@tazapay /tool <name> {"param": "value"}`.');
+      return;
+    }
+
+    const match = prompt.match(/^(\S+)\s*([\s\S]*)$/);
+    const toolName = match ? match[1] : prompt;
+    const tool = tools.find(t => t.name === toolName);
+    if (!tool) {
+      stream.markdown(`Tool \`${toolName}\` was not found in ${environment.name}. Use \`/tool\` to list the available tools.`);
+      return;
+    }
+
+    let parameters: any = {};
+    const rawParameters = match ? match[2].trim() : '';
+    if (rawParameters) {
+      try {
+        parameters = JSON.parse(rawParameters);
+      } catch {
+        stream.markdown('The parameters must be valid JSON, for example `{"id": "chk_123"}`.');
+        return;
+      }
+    }
+
+    // Mutating tools against a live environment need explicit confirmation (or are blocked)
+    if (!(await guardToolExecution(tool, parameters, environment))) {
+      stream.markdown(`Cancelled - \`${tool.name}\` was not run in ${environment.name}.`);
+      return;
+    }
+
+    stream.progress(`Running ${tool.name} in ${environment.name}...`);
+    try {
+      const result = await this.deps.history.track(tool.name, parameters, environment,
+        () => client.executeTool(tool.name, parameters, signal));
+
+      stream.markdown(`**${tool.name}** · ${this.deps.environments.describe(environment)}\n\n`);
+      stream.markdown('```json\n' + JSON.stringify(result, null, 2) + '\n```');
+    } catch (error) {
+      if (error instanceof ParameterValidationError) {
+        stream.markdown(`⚠️ Invalid parameters for \`${tool.name}\`:\n\n${formatValidationIssues(error.issues)}`);
+        stream.button({ command: 'tazapay-mcp.executeTool', title: '📝 Open Parameter Form', arguments: [tool] });
+        return;
+      }
+      stream.markdown(`❌ \`${tool.name}\` failed: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * /webhook: webhook handling help
+   */
+  private async handleWebhook(
+    prompt: string,
+    stream: vscode.ChatResponseStream,
+    conversation: RAGQueryOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    stream.progress('Looking up TazaPay webhook guidance...');
+    await this.answer(`TazaPay webhooks: ${prompt}`, conversation, stream, signal);
+  }
+
+  /**
+   * /errors: explain an API error, with a quick local hint for known HTTP statuses
+   */
+  private async handleErrors(
+    prompt: string,
+    stream: vscode.ChatResponseStream,
+    conversation: RAGQueryOptions,
+    signal: AbortSignal
+  ): Promise<void> {
+    const status = Number(prompt.match(/\b([45]\d\d)\b/)?.[1]);
+    if (HTTP_STATUS_HINTS[status]) {
+      stream.markdown(`**HTTP ${status}:** ${HTTP_STATUS_HINTS[status]}\n\n`);
+    }
+
+    stream.progress('Explaining the error...');
+    await this.answer(
+      `Explain this TazaPay API error, its likely causes and how to fix it:\n${prompt}`,
+      conversation,
+      stream,
+      signal
+    );
+  }
+
+  /**
+   * Stream a documentation answer into the chat
+   * When the RAG service is unavailable the answer comes from the offline documentation snapshot
+   * @param question - Question sent to RAG
+   * @param conversation - Conversation id and earlier turns
+   * @param stream - Chat response stream the answer is written to as it arrives
+   * @param signal - Aborted when the chat request is stopped
+   */
+  private async answer(
+    question: string,
+    conversation: RAGQueryOptions,
+    stream: vscode.ChatResponseStream,
+    signal: AbortSignal
+  ): Promise<void> {
+    const result = await this.deps.getRagClient().streamRAG(question, chunk => stream.markdown(chunk), conversation, signal);
+    renderSources(result.sources, stream);
+
+    if (result.cached) {
+      stream.markdown('\n\n*⚡ Cached answer - run "TazaPay: Clear Answer Cache" to fetch a fresh one.*');
+    }
+  }
+}
+
+/**
+ * List the documentation pages an answer was drawn from, so it can be checked against the docs
+ * @param sources - Sources returned with the answer
+ * @param stream - Chat response stream
+ */
+function renderSources(sources: RAGSource[], stream: vscode.ChatResponseStream): void {
+  if (sources.length === 0) {
+    return;
+  }
+
+  stream.markdown('\n\n**Sources:**\n');
+  for (const source of sources) {
+    const uri = vscode.Uri.parse(source.url);
+    stream.markdown('- ');
+    stream.anchor(uri, source.section ? `${source.title} › ${source.section}` : source.title);
+    stream.markdown('\n');
+    stream.reference(uri);
+  }
+}
+
+/**
+ * Collect the earlier turns of a chat conversation for a RAG query
+ * The most recent turns are kept until HISTORY_TOKEN_BUDGET is used up; the conversation id
+ * is reused from the previous answer or created for the first question
+ * @param chatContext - Chat context passed to the participant
+ * @returns Conversation id and trimmed history, oldest first
+ */
+function buildConversation(chatContext: vscode.ChatContext): { conversationId: string; history: ConversationTurn[] } {
+  let conversationId: string | undefined;
+  const turns: ConversationTurn[] = [];
+
+  for (const turn of chatContext.history) {
+    if (turn instanceof vscode.ChatRequestTurn) {
+      turns.push({ role: 'user', content: turn.command ? `/${turn.command} ${turn.prompt}` : turn.prompt });
+    } else if (turn instanceof vscode.ChatResponseTurn) {
+      conversationId = (turn.result.metadata as TazaPayChatResult['metadata'] | undefined)?.conversationId || conversationId;
+      const content = turn.response
+        .map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+        .join('')
+        .trim();
+      if (content) {
+        turns.push({ role: 'assistant', content });
+      }
+    }
+  }
+
+  // Walk back from the newest turn until the budget is spent
+  const history: ConversationTurn[] = [];
+  let remaining = HISTORY_TOKEN_BUDGET * CHARS_PER_TOKEN;
+  for (let i = turns.length - 1; i >= 0 && remaining > 0; i--) {
+    const content = turns[i].content.length > remaining
+      ? turns[i].content.substring(0, remaining) + '…'
+      : turns[i].content;
+    history.unshift({ role: turns[i].role, content });
+    remaining -= turns[i].content.length;
+  }
+
+  return { conversationId: conversationId || randomUUID(), history };
+}
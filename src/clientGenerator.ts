@@ -0,0 +1,197 @@
+/**
+ * TypeScript Client Generator
+ *
+ * This module writes a typed TypeScript module for every tool discovered on the server, so
+ * services can call TazaPay with checked request and response types instead of hand-written
+ * interfaces that drift from the API.
+ *
+ * Features:
+ * - Request and response interfaces derived from each tool's `parameters` / `outputSchema`
+ * - A client class with one method per tool, cancellable through an AbortSignal
+ * - Configurable class name and type prefix
+ * - Output file confined to the workspace folder
+ * - Deterministic output (tools sorted by name, no timestamps) so regenerating only changes what changed
+ */
+
+import * as path from 'path';
+import { blockCommentLine, singleQuote, toCamelCase, toPascalCase, tsDeclaration } from './codeGenerator';
+import { MCPTool } from './mcpClient';
+
+/**
+ * First line of every generated module; files without it are never overwritten silently
+ */
+export const GENERATED_CLIENT_MARKER = '// Generated by the TazaPay VS Code extension';
+
+/**
+ * Naming options for the generated module
+ */
+export interface ClientGeneratorOptions {
+  className: string;   // Name of the client class (also prefixes its options and error types)
+  typePrefix: string;  // Prefix for request / response type names
+}
+
+// Default request timeout of the generated client (ms)
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Member names of the generated class that tool methods must not shadow
+const RESERVED_MEMBERS = new Set(['constructor', 'options', 'send']);
+
+/**
+ * Check that a configured name can be used as a TypeScript identifier
+ * @param name - Class name or type prefix
+ * @param allowEmpty - Whether an empty string is acceptable (type prefix)
+ * @returns boolean - true if the name is usable
+ */
+export function isValidIdentifier(name: string, allowEmpty = false): boolean {
+  return (allowEmpty && name === '') || /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+/**
+ * Normalize the configured output path, which must stay inside the workspace folder
+ * @param outputPath - Path from `tazapay-mcp.clientGenerator.outputPath`
+ * @returns string[] | undefined - Path segments relative to the folder, or undefined for absolute paths and paths leaving it
+ */
+export function resolveOutputPath(outputPath: string): string[] | undefined {
+  const normalized = path.posix.normalize(outputPath.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || path.win32.isAbsolute(outputPath) || normalized === '..' || normalized.startsWith('../')) {
+    return undefined;
+  }
+  const segments = normalized.split('/').filter(segment => segment && segment !== '.');
+  return segments.length > 0 ? segments : undefined;
+}
+
+/**
+ * Generate a typed client module for a set of tools
+ * @param tools - Tools discovered on the server
+ * @param options - Naming options
+ * @returns string - TypeScript module source
+ */
+export function generateTypeScriptClient(tools: MCPTool[], options: ClientGeneratorOptions): string {
+  const { className, typePrefix } = options;
+  const errorName = `${className}Error`;
+  const optionsName = `${className}Options`;
+
+  const usedTypes = new Set<string>([className, errorName, optionsName]);
+  const usedMethods = new Set<string>(RESERVED_MEMBERS);
+  const sorted = [...tools].sort((a, b) => a.name.localeCompare(b.name));
+
+  const declarations: string[] = [];
+  const methods: string[] = [];
+  for (const tool of sorted) {
+    const baseName = uniqueName(`${typePrefix}${toPascalCase(tool.name)}`, usedTypes, '');
+    const requestName = `${baseName}Request`;
+    const responseName = `${baseName}Response`;
+    const methodName = uniqueName(toCamelCase(tool.name), usedMethods, 'Tool');
+
+    declarations.push(
+      `// ${tool.name}`,
+      '',
+      tsDeclaration(requestName, tool.parameters ?? {}, tool.parameters ?? {}, `Parameters of the ${tool.name} tool`),
+      '',
+      tool.outputSchema
+        ? tsDeclaration(responseName, tool.outputSchema, tool.outputSchema, `Result of the ${tool.name} tool`)
+        : `/** Result of the ${tool.name} tool (the server doesn't publish an output schema) */\nexport type ${responseName} = unknown;`,
+      ''
+    );
+
+    const description = blockCommentLine(tool.description) || `Call the ${tool.name} tool`;
+    methods.push(
+      '',
+      '  /**',
+      `   * ${description}`,
+      '   * @param request - Tool parameters',
+      '   * @param signal - Cancels the request (optional)',
+      '   */',
+      `  ${methodName}(request: ${requestName}, signal?: AbortSignal): Promise<${responseName}> {`,
+      `    return this.send<${responseName}>(${singleQuote(tool.endpoint || `/tools/${tool.name}`)}, request, signal);`,
+      '  }'
+    );
+  }
+
+  return [
+    `${GENERATED_CLIENT_MARKER} ("TazaPay MCP: Generate TypeScript Client").`,
+    '// Do not edit by hand: re-run the command to regenerate this file when the tools change.',
+    '/* eslint-disable */',
+    '',
+    `/** Options for ${className} */`,
+    `export interface ${optionsName} {`,
+    '  /** Server URL, for example https://api-sandbox.tazapay.com */',
+    '  serverUrl: string;',
+    '  /** Secret key, sent as a Bearer token */',
+    '  secretKey: string;',
+    `  /** Request timeout in milliseconds (default: ${DEFAULT_TIMEOUT_MS}) */`,
+    '  timeoutMs?: number;',
+    '}',
+    '',
+    '/** Error raised when TazaPay can\'t be reached or rejects a request */',
+    `export class ${errorName} extends Error {`,
+    '  constructor(message: string, readonly status?: number, readonly body?: unknown) {',
+    '    super(message);',
+    `    this.name = '${errorName}';`,
+    '  }',
+    '}',
+    '',
+    ...declarations,
+    `/** Typed client for the TazaPay tools (${sorted.length} ${sorted.length === 1 ? 'tool' : 'tools'}) */`,
+    `export class ${className} {`,
+    `  constructor(private readonly options: ${optionsName}) {}`,
+    ...methods,
+    '',
+    '  private async send<T>(path: string, request: unknown, signal?: AbortSignal): Promise<T> {',
+    '    const controller = new AbortController();',
+    `    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? ${DEFAULT_TIMEOUT_MS});`,
+    '    const onAbort = () => controller.abort();',
+    '    signal?.addEventListener(\'abort\', onAbort);',
+    '',
+    '    let response: Response;',
+    '    let text: string;',
+    '    try {',
+    '      response = await fetch(`${this.options.serverUrl.replace(/\\/+$/, \'\')}${path}`, {',
+    '        method: \'POST\',',
+    '        headers: {',
+    '          Authorization: `Bearer ${this.options.secretKey}`,',
+    '          \'Content-Type\': \'application/json\'',
+    '        },',
+    '        body: JSON.stringify(request),',
+    '        signal: controller.signal',
+    '      });',
+    '      text = await response.text();',
+    '    } catch (error) {',
+    '      const reason = signal?.aborted ? \'Request cancelled\'',
+    '        : controller.signal.aborted ? \'Request timed out\'',
+    '        : `Could not reach TazaPay: ${error instanceof Error ? error.message : error}`;',
+    `      throw new ${errorName}(reason);`,
+    '    } finally {',
+    '      clearTimeout(timer);',
+    '      signal?.removeEventListener(\'abort\', onAbort);',
+    '    }',
+    '',
+    '    let body: any;',
+    '    try {',
+    '      body = text ? JSON.parse(text) : undefined;',
+    '    } catch {',
+    '      body = text;',
+    '    }',
+    '',
+    '    if (!response.ok) {',
+    '      const message = typeof body?.message === \'string\' ? body.message : `TazaPay returned ${response.status}`;',
+    `      throw new ${errorName}(message, response.status, body);`,
+    '    }',
+    '    return body as T;',
+    '  }',
+    '}',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Make a name unique within a set by appending a suffix and counter
+ */
+function uniqueName(base: string, used: Set<string>, suffix: string): string {
+  let name = used.has(base) && suffix ? `${base}${suffix}` : base;
+  for (let counter = 2; used.has(name); counter++) {
+    name = `${base}${suffix}${counter}`;
+  }
+  used.add(name);
+  return name;
+}
@@ -0,0 +1,259 @@
+/**
+ * Integration Code Insertion
+ *
+ * This module merges generated integration code into an existing JavaScript, TypeScript or
+ * Python file instead of opening a new untitled document. The example call goes at the
+ * cursor; the imports, configuration lookups and declarations it needs are added below the
+ * file's imports unless the file already has them.
+ *
+ * Features:
+ * - "Add TazaPay <tool> call" code actions (Ctrl+. / Cmd+.) in JS, TS and Python files
+ * - Insertion shared with the "Insert at Cursor" option of Generate Integration Code
+ * - Existing imports, config lookups and declarations detected and not duplicated
+ */
+
+import * as vscode from 'vscode';
+import { CodeLanguage, declarationSeparator, generateCodeParts, indentLines, languageForEditor, unsupportedTransportMessage } from './codeGenerator';
+import { EnvironmentManager } from './environments';
+import { MCPClient, MCPTool } from './mcpClient';
+
+/**
+ * Languages generated code can be merged into
+ */
+export type InsertableLanguage = Extract<CodeLanguage, 'typescript' | 'javascript' | 'python'>;
+
+// Kind of the "Add TazaPay <tool> call" actions
+const ADD_CALL_KIND = vscode.CodeActionKind.Refactor.append('tazapay');
+
+// Top-level import statements
+const IMPORT_PATTERNS: Record<InsertableLanguage, RegExp> = {
+  typescript: /^(import\s|export\s.*\sfrom\s|(const|let|var)\s.*=\s*require\()/,
+  javascript: /^(import\s|export\s.*\sfrom\s|(const|let|var)\s.*=\s*require\()/,
+  python: /^(import|from)\s+\S/
+};
+
+/**
+ * Check whether generated code can be merged into a language
+ * @param language - Code language
+ * @returns boolean - true for TypeScript, JavaScript and Python
+ */
+export function isInsertableLanguage(language: CodeLanguage | undefined): language is InsertableLanguage {
+  return language === 'typescript' || language === 'javascript' || language === 'python';
+}
+
+/**
+ * Build the edit that adds a tool call at a position, with whatever the file is missing
+ * @param document - Document to insert into
+ * @param position - Where the call goes (it is placed on its own line)
+ * @param tool - Tool to call
+ * @param language - Language of the document
+ * @param serverUrl - Server URL used when TAZAPAY_SERVER_URL isn't set
+ * @returns vscode.WorkspaceEdit - Edit to apply
+ */
+export function buildInsertionEdit(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  tool: MCPTool,
+  language: InsertableLanguage,
+  serverUrl: string
+): vscode.WorkspaceEdit {
+  const parts = generateCodeParts(tool, language, serverUrl);
+  const text = document.getText();
+  const edit = new vscode.WorkspaceEdit();
+
+  const imports = missingImports(text, parts.imports);
+  const config = parts.config.filter(declaration => !isDeclared(text, declaration.name));
+  const declarations = parts.declarations.filter(declaration => !isDeclared(text, declaration.name));
+  const blocks = [
+    ...config.length > 0 ? [config.map(declaration => declaration.code).join('\n')] : [],
+    ...declarations.map(declaration => declaration.code)
+  ];
+
+  // Imports, config and declarations go right after the file's imports
+  if (imports.length > 0 || blocks.length > 0) {
+    const separator = declarationSeparator(language);
+    const gap = separator.slice(1);  // Blank lines between top-level blocks
+    const line = findImportsEnd(document, language);
+    const nextLineHasCode = line < document.lineCount && !document.lineAt(line).isEmptyOrWhitespace;
+
+    let insertion = imports.map(statement => `${statement}\n`).join('');
+    if (blocks.length > 0) {
+      insertion += `${line > 0 || imports.length > 0 ? gap : ''}${blocks.join(separator)}\n`;
+    }
+    if (nextLineHasCode) {
+      insertion += gap;
+    }
+    edit.insert(document.uri, new vscode.Position(line, 0), insertion);
+  }
+
+  // The call goes on the cursor line if it is blank, otherwise on a new line below it,
+  // one level deeper when the cursor line opens a block
+  const cursorLine = document.lineAt(position.line);
+  const indent = cursorLine.text.match(/^\s*/)![0];
+  if (cursorLine.isEmptyOrWhitespace) {
+    edit.replace(document.uri, cursorLine.range, indentLines(parts.call, indent));
+  } else {
+    const opensBlock = /[{:]\s*$/.test(cursorLine.text);
+    const unit = indent.includes('\t') ? '\t' : language === 'python' ? '    ' : '  ';
+    edit.insert(document.uri, cursorLine.range.end, `\n${indentLines(parts.call, opensBlock ? indent + unit : indent)}`);
+  }
+
+  return edit;
+}
+
+/**
+ * Offers "Add TazaPay <tool> call" for every discovered tool
+ * Actions are only offered on explicit requests (Ctrl+. or the Refactor menu) so the
+ * light bulb doesn't appear on every line of every file
+ */
+export class TazaPayCodeActionProvider implements vscode.CodeActionProvider<AddToolCallAction> {
+  static readonly providedCodeActionKinds = [ADD_CALL_KIND];
+
+  /**
+   * Languages the provider is registered for
+   */
+  static readonly selector: vscode.DocumentSelector = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'python']
+    .map(language => ({ language }));
+
+  /**
+   * @param getClient - Returns the currently connected MCP client (if any)
+   * @param environments - Environment profiles (the active server URL is written into the code)
+   */
+  constructor(
+    private readonly getClient: () => MCPClient | null,
+    private readonly environments: EnvironmentManager
+  ) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): AddToolCallAction[] {
+    const client = this.getClient();
+    const language = languageForEditor(document.languageId);
+    if (context.triggerKind !== vscode.CodeActionTriggerKind.Invoke || !client?.isConnected() || !isInsertableLanguage(language)) {
+      return [];
+    }
+    // Generated calls only work against REST endpoints
+    if (unsupportedTransportMessage(client.getTransport())) {
+      return [];
+    }
+
+    return client.getAvailableTools().map(tool => new AddToolCallAction(tool, document, range.start, language));
+  }
+
+  resolveCodeAction(action: AddToolCallAction): AddToolCallAction {
+    action.edit = buildInsertionEdit(action.document, action.position, action.tool, action.language, this.environments.getActive().serverUrl);
+    return action;
+  }
+}
+
+/**
+ * Code action adding a call to one tool; its edit is built when the action is chosen
+ */
+class AddToolCallAction extends vscode.CodeAction {
+  constructor(
+    readonly tool: MCPTool,
+    readonly document: vscode.TextDocument,
+    readonly position: vscode.Position,
+    readonly language: InsertableLanguage
+  ) {
+    super(`Add TazaPay ${tool.name} call`, ADD_CALL_KIND);
+  }
+}
+
+/**
+ * Find the line after the file's leading imports (or after its shebang, "use strict" or
+ * module docstring when it has no imports)
+ */
+function findImportsEnd(document: vscode.TextDocument, language: InsertableLanguage): number {
+  let end = 0;
+  let line = 0;
+
+  // Prologue
+  if (document.lineCount > 0 && document.lineAt(0).text.startsWith('#!')) {
+    end = line = 1;
+  }
+  if (language === 'python' && line < document.lineCount && /^[rRuU]?("""|''')/.test(document.lineAt(line).text)) {
+    const quote = document.lineAt(line).text.match(/("""|''')/)![1];
+    const closesOnSameLine = document.lineAt(line).text.split(quote).length > 2;
+    while (!closesOnSameLine && line + 1 < document.lineCount && !document.lineAt(line + 1).text.includes(quote)) {
+      line++;
+    }
+    end = line = Math.min(line + (closesOnSameLine ? 1 : 2), document.lineCount);
+  }
+  if (language !== 'python' && line < document.lineCount && /^\s*['"]use strict['"]/.test(document.lineAt(line).text)) {
+    end = line = line + 1;
+  }
+
+  // Imports, skipping blank lines and comments between them
+  for (; line < document.lineCount; line++) {
+    const text = document.lineAt(line).text;
+    if (IMPORT_PATTERNS[language].test(text)) {
+      // Follow statements that span several lines: import { a,\n b } / from x import (a,\n b)
+      const open = language === 'python' ? '(' : '{';
+      const close = language === 'python' ? ')' : '}';
+      if (text.includes(open) && !text.includes(close)) {
+        while (line + 1 < document.lineCount && !document.lineAt(line).text.includes(close)) {
+          line++;
+        }
+      }
+      end = line + 1;
+    } else if (text.trim() && !/^\s*(\/\/|\/\*|\*|#)/.test(text)) {
+      break;
+    }
+  }
+
+  return end;
+}
+
+/**
+ * Select the import statements a file doesn't have yet
+ * `from module import a, b` only adds the names that aren't imported from that module
+ */
+function missingImports(text: string, imports: string[]): string[] {
+  const missing: string[] = [];
+  for (const statement of imports.filter(line => line.trim())) {
+    const fromImport = statement.match(/^from\s+(\S+)\s+import\s+(.+)$/);
+    if (fromImport) {
+      const module = escapeRegExp(fromImport[1]);
+      const names = fromImport[2].split(',').map(name => name.trim()).filter(name =>
+        !new RegExp(`^from\\s+${module}\\s+import\\s+(\\([^)]*|[^\\n]*)\\b${escapeRegExp(name)}\\b`, 'm').test(text));
+      if (names.length > 0) {
+        missing.push(`from ${fromImport[1]} import ${names.join(', ')}`);
+      }
+      continue;
+    }
+
+    const moduleImport = statement.match(/^import\s+(\S+)$/);
+    if (moduleImport) {
+      if (!new RegExp(`^import\\s+([\\w.]+\\s*,\\s*)*${escapeRegExp(moduleImport[1])}\\b`, 'm').test(text)) {
+        missing.push(statement);
+      }
+      continue;
+    }
+
+    if (!text.includes(statement)) {
+      missing.push(statement);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Check whether a file already declares or imports a name
+ */
+function isDeclared(text: string, name: string): boolean {
+  const id = escapeRegExp(name);
+  return [
+    `\\b(class|interface|type|enum|function|def|const|let|var)\\s+${id}\\b`,  // Declarations
+    `^\\s*${id}\\s*(:[^=\\n]*)?=`,                                           // Python assignments
+    `@typedef\\s+\\{[^}]*\\}\\s+${id}\\b`,                                    // JSDoc typedefs
+    `import\\s*(type\\s*)?\\{[^}]*\\b${id}\\b[^}]*\\}`,                        // import { name } from ...
+    `^from\\s+\\S+\\s+import\\s+(\\([^)]*|[^\\n]*)\\b${id}\\b`                  // from module import name
+  ].some(pattern => new RegExp(pattern, 'm').test(text));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,1148 @@
+/**
+ * Integration Code Generator
+ *
+ * This module turns an MCP tool into a ready-to-run snippet that calls the tool's REST
+ * endpoint from a backend service. Request types are derived from the tool's `parameters`
+ * JSON Schema so required and optional fields are visible at a glance.
+ *
+ * Features:
+ * - TypeScript, JavaScript, Python, Go, Java and cURL output
+ * - Request interface / dataclass / struct / class built from required and optional fields
+ * - Idiomatic error handling per language (typed error with status and response body)
+ * - Server URL and secret key read from TAZAPAY_SERVER_URL / TAZAPAY_SECRET_KEY
+ * - Usage example filled with schema examples, defaults or placeholders
+ * - Refused for MCP transports, whose tools have no REST endpoint to call
+ */
+
+import { MCPTool, MCPTransportMode } from './mcpClient';
+import { resolveRef } from './schemaValidator';
+
+/**
+ * Languages integration code can be generated in
+ */
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'java' | 'curl';
+
+/**
+ * Display and editor metadata for a code language
+ */
+export interface CodeLanguageInfo {
+  id: CodeLanguage;
+  label: string;              // Name shown in the language picker
+  documentLanguage: string;   // VS Code language id of the generated document
+  editorLanguages: string[];  // Editor language ids that default the picker to this language
+}
+
+/**
+ * Supported languages, in picker order
+ */
+export const CODE_LANGUAGES: CodeLanguageInfo[] = [
+  { id: 'typescript', label: 'TypeScript', documentLanguage: 'typescript', editorLanguages: ['typescript', 'typescriptreact'] },
+  { id: 'javascript', label: 'JavaScript', documentLanguage: 'javascript', editorLanguages: ['javascript', 'javascriptreact'] },
+  { id: 'python', label: 'Python', documentLanguage: 'python', editorLanguages: ['python'] },
+  { id: 'go', label: 'Go', documentLanguage: 'go', editorLanguages: ['go'] },
+  { id: 'java', label: 'Java', documentLanguage: 'java', editorLanguages: ['java'] },
+  { id: 'curl', label: 'cURL', documentLanguage: 'shellscript', editorLanguages: ['shellscript'] }
+];
+
+/**
+ * A property of an object schema
+ */
+export interface SchemaField {
+  name: string;          // Property name as sent on the wire
+  schema: any;           // Property schema (references resolved)
+  required: boolean;
+  description?: string;
+}
+
+// Nesting depth after which schemas are typed as "any value" (guards recursive $refs)
+const MAX_TYPE_DEPTH = 5;
+
+// Request timeout used by the generated code (seconds)
+const REQUEST_TIMEOUT_SECONDS = 30;
+
+// Identifiers that can't be used as field names without a suffix
+const PYTHON_KEYWORDS = new Set([
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+  'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not',
+  'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'None', 'True', 'False'
+]);
+const JAVA_KEYWORDS = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+  'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+  'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+  'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this',
+  'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while', 'true', 'false', 'null'
+]);
+// Accessor suffixes that would turn get<Name>() into a final java.lang.Object method (getClass)
+const JAVA_RESERVED_ACCESSORS = new Set(['Class']);
+
+/**
+ * A top-level declaration of a generated snippet
+ */
+export interface CodeDeclaration {
+  name: string;  // Declared identifier, used to detect declarations a file already has
+  code: string;
+}
+
+/**
+ * Pieces of a generated snippet
+ */
+export interface CodeParts {
+  imports: string[];                // Import lines
+  config: CodeDeclaration[];        // Server URL / secret key lookups
+  declarations: CodeDeclaration[];  // Types, error class and the function calling the tool
+  call: string;                     // Example call, as statements that can be placed in any function body
+}
+
+/**
+ * Pick the code language matching an editor language
+ * @param languageId - VS Code language id of the active editor
+ * @returns CodeLanguage | undefined - Matching language, or undefined if none is supported
+ */
+export function languageForEditor(languageId?: string): CodeLanguage | undefined {
+  return CODE_LANGUAGES.find(language => languageId && language.editorLanguages.includes(languageId))?.id;
+}
+
+/**
+ * Explain why integration code can't be generated for a transport
+ * Generated code posts to the tools' REST endpoints, which only exist in `rest` mode; MCP servers
+ * are called through JSON-RPC sessions that an MCP client SDK should manage
+ * @param transport - Transport the tools are reached over
+ * @returns string | undefined - Message to show, or undefined if code can be generated
+ */
+export function unsupportedTransportMessage(transport: MCPTransportMode): string | undefined {
+  if (transport === 'rest') {
+    return undefined;
+  }
+  return `Generated code calls the tools' REST endpoints, but this server is reached over MCP (${transport}), which has none. ` +
+    'Call its tools with an MCP client SDK (tools/call), or switch tazapay-mcp.transport to "rest" for a server with REST endpoints';
+}
+
+/**
+ * Generate integration code for a tool
+ * @param tool - Tool to call
+ * @param language - Output language
+ * @param serverUrl - Server URL used when TAZAPAY_SERVER_URL isn't set
+ * @returns string - Complete snippet
+ */
+export function generateIntegrationCode(tool: MCPTool, language: CodeLanguage, serverUrl: string): string {
+  if (language === 'curl') {
+    return curlCode(tool, serverUrl);
+  }
+
+  const parts = generateCodeParts(tool, language, serverUrl);
+  const commentPrefix = language === 'python' ? '#' : '//';
+  const header = headerLines(tool).map(line => `${commentPrefix}${line ? ` ${line}` : ''}`).join('\n');
+  const imports = parts.imports.length > 0 ? `${parts.imports.join('\n')}\n\n` : '';
+  const separator = declarationSeparator(language);
+  const definitions = [
+    ...parts.config.length > 0 ? [parts.config.map(config => config.code).join('\n')] : [],
+    ...parts.declarations.map(declaration => declaration.code)
+  ].join(separator);
+
+  switch (language) {
+    case 'python':
+      return `${header}\n\n${imports}${definitions}${separator}if __name__ == "__main__":\n${indentLines(parts.call, '    ')}\n`;
+    case 'go':
+      return `${header}\n\n${imports}${definitions}\n\nfunc main() {\n${indentLines(parts.call, '\t')}\n}\n`;
+    case 'java':
+      // The declarations are members of the client class
+      return `${header}\n\n${imports}${definitions}\n\n    public static void main(String[] args) throws Exception {\n${indentLines(parts.call, '        ')}\n    }\n}\n`;
+    default:
+      return `${header}\n\n${imports}${definitions}\n\n// Usage example\n${parts.call}\n`;
+  }
+}
+
+/**
+ * Generate the pieces of a snippet, so they can be merged into an existing file
+ * @param tool - Tool to call
+ * @param language - Output language (any but cURL)
+ * @param serverUrl - Server URL used when TAZAPAY_SERVER_URL isn't set
+ * @returns CodeParts - Imports, configuration, declarations and example call
+ */
+export function generateCodeParts(tool: MCPTool, language: Exclude<CodeLanguage, 'curl'>, serverUrl: string): CodeParts {
+  return {
+    typescript: typeScriptCode,
+    javascript: javaScriptCode,
+    python: pythonCode,
+    go: goCode,
+    java: javaCode
+  }[language](tool, serverUrl);
+}
+
+/**
+ * Blank lines between top-level declarations (two in Python, as PEP 8 asks)
+ */
+export function declarationSeparator(language: CodeLanguage): string {
+  return language === 'python' ? '\n\n\n' : '\n\n';
+}
+
+/**
+ * List the properties of an object schema
+ * @param schema - Object schema (may be a reference)
+ * @param root - Root schema for resolving references
+ * @returns SchemaField[] - Properties in declaration order
+ */
+export function getSchemaFields(schema: any, root: any): SchemaField[] {
+  const resolved = resolveSchema(schema, root);
+  const properties = resolved?.properties;
+  if (!properties || typeof properties !== 'object') {
+    return [];
+  }
+
+  const required: string[] = Array.isArray(resolved.required) ? resolved.required : [];
+  return Object.entries(properties).map(([name, propertySchema]) => {
+    const field = resolveSchema(propertySchema, root);
+    return {
+      name,
+      schema: field,
+      required: required.includes(name),
+      description: typeof field?.description === 'string' ? field.description : undefined
+    };
+  });
+}
+
+/**
+ * Convert a tool or field name to PascalCase ("create-payment" -> "CreatePayment")
+ */
+export function toPascalCase(name: string): string {
+  const result = splitWords(name).map(word => word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+  if (!result) {
+    return 'Value';
+  }
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+/**
+ * Convert a tool or field name to camelCase ("create-payment" -> "createPayment")
+ */
+export function toCamelCase(name: string): string {
+  const pascal = toPascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Convert a tool or field name to snake_case ("createPayment" -> "create_payment")
+ */
+function toSnakeCase(name: string): string {
+  const result = splitWords(name).map(word => word.toLowerCase()).join('_') || 'value';
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+/**
+ * Split a name into words on separators and camelCase boundaries
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word);
+}
+
+/**
+ * Resolve references and return an empty schema for missing ones
+ */
+function resolveSchema(schema: any, root: any): any {
+  return resolveRef(schema, root) || {};
+}
+
+/**
+ * Determine the basic JSON type of a schema
+ */
+function schemaType(schema: any): 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object' | 'unknown' {
+  const types = Array.isArray(schema?.type) ? schema.type.filter((type: string) => type !== 'null') : [schema?.type];
+  const type = types.length === 1 ? types[0] : undefined;
+  if (['string', 'integer', 'number', 'boolean', 'array', 'object'].includes(type)) {
+    return type;
+  }
+  if (Array.isArray(schema?.enum) && schema.enum.length > 0) {
+    const first = typeof schema.enum[0];
+    return first === 'string' || first === 'number' || first === 'boolean' ? first : 'unknown';
+  }
+  if (schema?.properties) {
+    return 'object';
+  }
+  if (schema?.items) {
+    return 'array';
+  }
+  return 'unknown';
+}
+
+/**
+ * Build a value for the usage example: the schema's example, default or first enum value,
+ * otherwise a placeholder of the right type
+ * @param includeOptional - Also fill optional object properties (documentation samples)
+ */
+export function exampleValue(schema: any, root: any, name: string, depth = 0, includeOptional = false): any {
+  const resolved = resolveSchema(schema, root);
+  if (resolved.example !== undefined) {
+    return resolved.example;
+  }
+  if (Array.isArray(resolved.examples) && resolved.examples.length > 0) {
+    return resolved.examples[0];
+  }
+  if (resolved.default !== undefined) {
+    return resolved.default;
+  }
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+    return resolved.enum[0];
+  }
+
+  switch (schemaType(resolved)) {
+    case 'string':
+      switch (resolved.format) {
+        case 'email': return 'buyer@example.com';
+        case 'date': return '2026-01-01';
+        case 'date-time': return '2026-01-01T00:00:00Z';
+        case 'uri': case 'url': return 'https://example.com';
+        default: return `<${name}>`;
+      }
+    case 'integer':
+    case 'number':
+      return resolved.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return includeOptional && depth < MAX_TYPE_DEPTH ? [exampleValue(resolved.items, root, name, depth + 1, true)] : [];
+    case 'object': {
+      const example: Record<string, any> = {};
+      if (depth < MAX_TYPE_DEPTH) {
+        for (const field of getSchemaFields(resolved, root).filter(field => field.required || includeOptional)) {
+          example[field.name] = exampleValue(field.schema, root, field.name, depth + 1, includeOptional);
+        }
+      }
+      return example;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Comment lines at the top of every snippet
+ */
+function headerLines(tool: MCPTool): string[] {
+  return [
+    `Integration code for ${tool.name}`,
+    ...singleLine(tool.description) ? [singleLine(tool.description)] : [],
+    '',
+    'Set TAZAPAY_SERVER_URL and TAZAPAY_SECRET_KEY in the environment; never commit the secret key.'
+  ];
+}
+
+/**
+ * REST path of a tool
+ */
+function toolPath(tool: MCPTool): string {
+  return tool.endpoint || `/tools/${tool.name}`;
+}
+
+/**
+ * Collapse whitespace so text fits in a single-line comment
+ */
+export function singleLine(text: string | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * singleLine() for text inside a block comment (TypeScript, JavaScript, Java): also breaks up comment terminators
+ * Other languages' comments and docstrings don't end at `*\/`, and `\/` would be an invalid escape in a Python docstring
+ */
+export function blockCommentLine(text: string | undefined): string {
+  return singleLine(text).replace(/\*\//g, '*\\/');
+}
+
+/**
+ * Quote a string with single quotes (TypeScript / JavaScript)
+ */
+export function singleQuote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Indent every non-empty line
+ */
+export function indentLines(text: string, indent: string): string {
+  return text.split('\n').map(line => line ? `${indent}${line}` : line).join('\n');
+}
+
+/**
+ * Pad names so a column of declarations lines up (as gofmt does)
+ */
+function padEnd(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - text.length));
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript / JavaScript
+// ---------------------------------------------------------------------------
+
+/**
+ * TypeScript type of a schema
+ */
+export function tsType(schema: any, root: any, depth = 0): string {
+  const resolved = resolveSchema(schema, root);
+  if (depth > MAX_TYPE_DEPTH) {
+    return 'unknown';
+  }
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+    return resolved.enum.map((value: any) => typeof value === 'string' ? singleQuote(value) : JSON.stringify(value)).join(' | ');
+  }
+
+  switch (schemaType(resolved)) {
+    case 'string': return 'string';
+    case 'integer': case 'number': return 'number';
+    case 'boolean': return 'boolean';
+    case 'array': {
+      const item = tsType(resolved.items, root, depth + 1);
+      return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object': {
+      const fields = getSchemaFields(resolved, root);
+      if (fields.length === 0) {
+        return 'Record<string, unknown>';
+      }
+      return `{ ${fields.map(field => `${tsPropertyName(field.name)}${field.required ? '' : '?'}: ${tsType(field.schema, root, depth + 1)}`).join('; ')} }`;
+    }
+    default: return 'unknown';
+  }
+}
+
+/**
+ * Property name, quoted when it isn't a valid identifier
+ */
+export function tsPropertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : singleQuote(name);
+}
+
+/**
+ * Render a value as a TypeScript / JavaScript literal
+ */
+function jsLiteral(value: any, indent = ''): string {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '[]' : `[${value.map(item => jsLiteral(item, indent)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const inner = `${indent}  `;
+    return `{\n${entries.map(([key, item]) => `${inner}${tsPropertyName(key)}: ${jsLiteral(item, inner)}`).join(',\n')}\n${indent}}`;
+  }
+  return typeof value === 'string' ? singleQuote(value) : JSON.stringify(value);
+}
+
+/**
+ * Declaration of a named type for a schema: an interface for objects with properties,
+ * a type alias otherwise
+ */
+export function tsDeclaration(name: string, schema: any, root: any, comment: string): string {
+  const fields = getSchemaFields(schema, root);
+  if (fields.length === 0) {
+    return `/** ${comment} */\nexport type ${name} = ${tsType(schema, root)};`;
+  }
+
+  const lines = fields.map(field => {
+    const doc = blockCommentLine(field.description) ? `  /** ${blockCommentLine(field.description)} */\n` : '';
+    return `${doc}  ${tsPropertyName(field.name)}${field.required ? '' : '?'}: ${tsType(field.schema, root, 1)};`;
+  });
+  return `/** ${comment} */\nexport interface ${name} {\n${lines.join('\n')}\n}`;
+}
+
+/**
+ * Request / error handling shared by the TypeScript and JavaScript snippets
+ */
+function jsCallBody(tool: MCPTool): string {
+  return [
+    '  let response;',
+    '  try {',
+    `    response = await fetch(\`\${TAZAPAY_SERVER_URL}${toolPath(tool)}\`, {`,
+    "      method: 'POST',",
+    '      headers: {',
+    '        Authorization: `Bearer ${TAZAPAY_SECRET_KEY}`,',
+    "        'Content-Type': 'application/json'",
+    '      },',
+    '      body: JSON.stringify(request),',
+    `      signal: AbortSignal.timeout(${REQUEST_TIMEOUT_SECONDS * 1000})`,
+    '    });',
+    '  } catch (error) {',
+    '    throw new TazaPayError(`Could not reach TazaPay: ${error instanceof Error ? error.message : error}`);',
+    '  }',
+    '',
+    '  const text = await response.text();',
+    '  let body;',
+    '  try {',
+    '    body = text ? JSON.parse(text) : undefined;',
+    '  } catch {',
+    '    body = text;',
+    '  }',
+    '',
+    '  if (!response.ok) {',
+    '    const message = typeof body?.message === \'string\' ? body.message : `TazaPay returned ${response.status}`;',
+    '    throw new TazaPayError(message, response.status, body);',
+    '  }',
+    '  return body;'
+  ].join('\n');
+}
+
+/**
+ * Example call shared by the TypeScript and JavaScript snippets
+ */
+function jsCall(tool: MCPTool): string {
+  const functionName = toCamelCase(tool.name);
+  const example = exampleValue(tool.parameters, tool.parameters, tool.name);
+  return [
+    `${functionName}(${jsLiteral(example && typeof example === 'object' ? example : {})})`,
+    "  .then(result => console.log('Result:', result))",
+    '  .catch(error => {',
+    '    if (error instanceof TazaPayError) {',
+    `      console.error(\`${tool.name} failed (\${error.status ?? 'no response'}): \${error.message}\`, error.body);`,
+    '    } else {',
+    '      console.error(error);',
+    '    }',
+    '  });'
+  ].join('\n');
+}
+
+/**
+ * Server URL / secret key lookups shared by the TypeScript and JavaScript snippets
+ */
+function jsConfig(serverUrl: string): CodeDeclaration[] {
+  return [
+    { name: 'TAZAPAY_SERVER_URL', code: `const TAZAPAY_SERVER_URL = process.env.TAZAPAY_SERVER_URL ?? ${singleQuote(serverUrl)};` },
+    { name: 'TAZAPAY_SECRET_KEY', code: "const TAZAPAY_SECRET_KEY = process.env.TAZAPAY_SECRET_KEY ?? '';" }
+  ];
+}
+
+/**
+ * TypeScript: request interface, typed error and an async function using fetch
+ */
+function typeScriptCode(tool: MCPTool, serverUrl: string): CodeParts {
+  const typeName = toPascalCase(tool.name);
+  const responseType = tool.outputSchema ? `${typeName}Response` : 'unknown';
+  const functionName = toCamelCase(tool.name);
+
+  const declarations: CodeDeclaration[] = [{
+    name: `${typeName}Request`,
+    code: tsDeclaration(`${typeName}Request`, tool.parameters, tool.parameters, `Parameters of the ${tool.name} tool`)
+  }];
+  if (tool.outputSchema) {
+    declarations.push({
+      name: responseType,
+      code: tsDeclaration(responseType, tool.outputSchema, tool.outputSchema, `Result of the ${tool.name} tool`)
+    });
+  }
+  declarations.push({
+    name: 'TazaPayError',
+    code: [
+      '/** Error raised when TazaPay can\'t be reached or rejects the request */',
+      'export class TazaPayError extends Error {',
+      '  constructor(message: string, readonly status?: number, readonly body?: unknown) {',
+      '    super(message);',
+      "    this.name = 'TazaPayError';",
+      '  }',
+      '}'
+    ].join('\n')
+  }, {
+    name: functionName,
+    code: [
+      `/** ${blockCommentLine(tool.description) || `Call the ${tool.name} tool`} */`,
+      `export async function ${functionName}(request: ${typeName}Request): Promise<${responseType}> {`,
+      jsCallBody(tool)
+        .replace('  let response;', '  let response: Response;')
+        .replace('  let body;', '  let body: any;'),
+      '}'
+    ].join('\n')
+  });
+
+  return { imports: [], config: jsConfig(serverUrl), declarations, call: jsCall(tool) };
+}
+
+/**
+ * JavaScript: JSDoc typedef, error class and an async function using fetch
+ */
+function javaScriptCode(tool: MCPTool, serverUrl: string): CodeParts {
+  const typeName = `${toPascalCase(tool.name)}Request`;
+  const functionName = toCamelCase(tool.name);
+  const properties = getSchemaFields(tool.parameters, tool.parameters).map(field => {
+    const name = field.required ? field.name : `[${field.name}]`;
+    const description = blockCommentLine(field.description);
+    return ` * @property {${tsType(field.schema, tool.parameters, 1)}} ${name}${description ? ` - ${description}` : ''}`;
+  });
+
+  const declarations: CodeDeclaration[] = [{
+    name: typeName,
+    code: [
+      '/**',
+      ` * Parameters of the ${tool.name} tool`,
+      ` * @typedef {Object} ${typeName}`,
+      ...properties,
+      ' */'
+    ].join('\n')
+  }, {
+    name: 'TazaPayError',
+    code: [
+      '/** Error raised when TazaPay can\'t be reached or rejects the request */',
+      'class TazaPayError extends Error {',
+      '  constructor(message, status, body) {',
+      '    super(message);',
+      "    this.name = 'TazaPayError';",
+      '    this.status = status;',
+      '    this.body = body;',
+      '  }',
+      '}'
+    ].join('\n')
+  }, {
+    name: functionName,
+    code: [
+      '/**',
+      ` * ${blockCommentLine(tool.description) || `Call the ${tool.name} tool`}`,
+      ` * @param {${typeName}} request`,
+      ' * @returns {Promise<any>} Tool result',
+      ' * @throws {TazaPayError}',
+      ' */',
+      `async function ${functionName}(request) {`,
+      jsCallBody(tool),
+      '}'
+    ].join('\n')
+  }];
+
+  return { imports: [], config: jsConfig(serverUrl), declarations, call: jsCall(tool) };
+}
+
+// ---------------------------------------------------------------------------
+// Python
+// ---------------------------------------------------------------------------
+
+/**
+ * Python type hint of a schema; records the typing names it uses
+ */
+function pythonType(schema: any, root: any, typing: Set<string>, depth = 0): string {
+  const resolved = resolveSchema(schema, root);
+  if (depth > MAX_TYPE_DEPTH) {
+    typing.add('Any');
+    return 'Any';
+  }
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0 && resolved.enum.every((value: any) => typeof value === 'string')) {
+    typing.add('Literal');
+    return `Literal[${resolved.enum.map((value: string) => JSON.stringify(value)).join(', ')}]`;
+  }
+
+  switch (schemaType(resolved)) {
+    case 'string': return 'str';
+    case 'integer': return 'int';
+    case 'number': return 'float';
+    case 'boolean': return 'bool';
+    case 'array':
+      typing.add('List');
+      return `List[${pythonType(resolved.items, root, typing, depth + 1)}]`;
+    case 'object':
+      typing.add('Dict').add('Any');
+      return 'Dict[str, Any]';
+    default:
+      typing.add('Any');
+      return 'Any';
+  }
+}
+
+/**
+ * Render a value as a Python literal
+ */
+function pythonLiteral(value: any): string {
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(pythonLiteral).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${pythonLiteral(item)}`).join(', ')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Python: dataclass request, exception class and a function using requests
+ */
+function pythonCode(tool: MCPTool, serverUrl: string): CodeParts {
+  const root = tool.parameters;
+  const className = `${toPascalCase(tool.name)}Request`;
+  const functionName = toSnakeCase(tool.name);
+  const typing = new Set<string>(['Any', 'Dict', 'Optional']);
+
+  // Dataclass fields without defaults must come first
+  const fields = getSchemaFields(root, root)
+    .map(field => {
+      const snake = toSnakeCase(field.name);
+      return { ...field, attribute: PYTHON_KEYWORDS.has(snake) ? `${snake}_` : snake, type: pythonType(field.schema, root, typing) };
+    })
+    .sort((a, b) => Number(b.required) - Number(a.required));
+
+  const attributes = fields.map(field => {
+    const description = singleLine(field.description);
+    const declaration = field.required ? `${field.attribute}: ${field.type}` : `${field.attribute}: Optional[${field.type}] = None`;
+    return `    ${declaration}${description ? `  # ${description}` : ''}`;
+  });
+  const payload = fields.filter(field => field.required).map(field => `            ${JSON.stringify(field.name)}: self.${field.attribute},`);
+  const optional = fields.filter(field => !field.required).flatMap(field => [
+    `        if self.${field.attribute} is not None:`,
+    `            payload[${JSON.stringify(field.name)}] = self.${field.attribute}`
+  ]);
+
+  const config: CodeDeclaration[] = [
+    { name: 'TAZAPAY_SERVER_URL', code: `TAZAPAY_SERVER_URL = os.environ.get("TAZAPAY_SERVER_URL", ${JSON.stringify(serverUrl)})` },
+    { name: 'TAZAPAY_SECRET_KEY', code: 'TAZAPAY_SECRET_KEY = os.environ.get("TAZAPAY_SECRET_KEY", "")' }
+  ];
+
+  const errorClass = [
+    'class TazaPayError(Exception):',
+    '    """Raised when TazaPay can\'t be reached or rejects the request."""',
+    '',
+    '    def __init__(self, message: str, status_code: Optional[int] = None, body: Any = None):',
+    '        super().__init__(message)',
+    '        self.status_code = status_code',
+    '        self.body = body'
+  ].join('\n');
+
+  const requestClass = [
+    '@dataclass',
+    `class ${className}:`,
+    `    """Parameters of the ${tool.name} tool."""`,
+    '',
+    ...attributes.length > 0 ? [...attributes, ''] : [],
+    '    def to_dict(self) -> Dict[str, Any]:',
+    ...payload.length > 0
+      ? ['        payload: Dict[str, Any] = {', ...payload, '        }']
+      : ['        payload: Dict[str, Any] = {}'],
+    ...optional,
+    '        return payload'
+  ].join('\n');
+
+  const callFunction = [
+    `def ${functionName}(request: ${className}) -> Any:`,
+    `    """${(singleLine(tool.description) || `Call the ${tool.name} tool.`).replace(/"""/g, '\'\'\'')}"""`,
+    '    try:',
+    '        response = requests.post(',
+    `            f"{TAZAPAY_SERVER_URL}${toolPath(tool).replace(/[{}]/g, '$&$&')}",`,
+    '            json=request.to_dict(),',
+    '            headers={"Authorization": f"Bearer {TAZAPAY_SECRET_KEY}"},',
+    `            timeout=${REQUEST_TIMEOUT_SECONDS},`,
+    '        )',
+    '    except requests.RequestException as error:',
+    '        raise TazaPayError(f"Could not reach TazaPay: {error}") from error',
+    '',
+    '    try:',
+    '        body = response.json()',
+    '    except ValueError:',
+    '        body = response.text',
+    '',
+    '    if not response.ok:',
+    '        message = body.get("message") if isinstance(body, dict) else None',
+    '        raise TazaPayError(message or f"TazaPay returned {response.status_code}", response.status_code, body)',
+    '    return body'
+  ].join('\n');
+
+  const arguments_ = fields
+    .filter(field => field.required)
+    .map(field => `${field.attribute}=${pythonLiteral(exampleValue(field.schema, root, field.name))}`);
+  const call = [
+    'try:',
+    `    result = ${functionName}(${className}(${arguments_.join(', ')}))`,
+    '    print(result)',
+    'except TazaPayError as error:',
+    `    print(f"${tool.name} failed ({error.status_code}): {error}")`
+  ].join('\n');
+
+  return {
+    imports: [
+      'import os',
+      'from dataclasses import dataclass',
+      `from typing import ${[...typing].sort().join(', ')}`,
+      '',
+      'import requests'
+    ],
+    config,
+    declarations: [
+      { name: 'TazaPayError', code: errorClass },
+      { name: className, code: requestClass },
+      { name: functionName, code: callFunction }
+    ],
+    call
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Go
+// ---------------------------------------------------------------------------
+
+/**
+ * Go type of a schema
+ */
+function goType(schema: any, root: any, depth = 0): string {
+  const resolved = resolveSchema(schema, root);
+  if (depth > MAX_TYPE_DEPTH) {
+    return 'interface{}';
+  }
+  switch (schemaType(resolved)) {
+    case 'string': return 'string';
+    case 'integer': return 'int64';
+    case 'number': return 'float64';
+    case 'boolean': return 'bool';
+    case 'array': return `[]${goType(resolved.items, root, depth + 1)}`;
+    case 'object': return 'map[string]interface{}';
+    default: return 'interface{}';
+  }
+}
+
+/**
+ * Render a value of a scalar Go type (collections start empty)
+ */
+function goLiteral(type: string, value: any): string {
+  switch (type) {
+    case 'string': return JSON.stringify(typeof value === 'string' ? value : String(value ?? ''));
+    case 'int64': return String(Math.trunc(Number(value) || 0));
+    case 'float64': return String(Number(value) || 0);
+    case 'bool': return String(value === true);
+    case 'interface{}': return 'nil';
+    default: return `${type}{}`;
+  }
+}
+
+/**
+ * Go: request struct with json tags, APIError type and a function using net/http
+ * Optional scalars are pointers so they are left out of the payload when unset
+ */
+function goCode(tool: MCPTool, serverUrl: string): CodeParts {
+  const root = tool.parameters;
+  const structName = `${toPascalCase(tool.name)}Request`;
+  const functionName = toPascalCase(tool.name);
+
+  const fields = getSchemaFields(root, root).map(field => {
+    const type = goType(field.schema, root);
+    const pointer = !field.required && !type.startsWith('[]') && !type.startsWith('map[') && type !== 'interface{}';
+    return {
+      ...field,
+      goName: toPascalCase(field.name),
+      type,
+      declaredType: pointer ? `*${type}` : type,
+      tag: `\`json:"${field.name}${field.required ? '' : ',omitempty'}"\``
+    };
+  });
+  const nameWidth = Math.max(0, ...fields.map(field => field.goName.length));
+  const typeWidth = Math.max(0, ...fields.map(field => field.declaredType.length));
+  const structLines = fields.flatMap(field => [
+    ...singleLine(field.description) ? [`\t// ${field.goName} ${singleLine(field.description)}`] : [],
+    `\t${padEnd(field.goName, nameWidth)} ${padEnd(field.declaredType, typeWidth)} ${field.tag}`
+  ]);
+
+  const requestStruct = [
+    `// ${structName} holds the parameters of the ${tool.name} tool.`,
+    `type ${structName} struct {`,
+    ...structLines,
+    '}'
+  ].join('\n');
+
+  const errorType = [
+    '// APIError is returned when TazaPay answers with a non-2xx status.',
+    'type APIError struct {',
+    '\tStatusCode int',
+    '\tBody       string',
+    '}',
+    '',
+    'func (e *APIError) Error() string {',
+    `\treturn fmt.Sprintf("tazapay: ${tool.name} returned %d: %s", e.StatusCode, e.Body)`,
+    '}'
+  ].join('\n');
+
+  const callFunction = [
+    `// ${functionName} calls the ${tool.name} tool.${singleLine(tool.description) ? `\n// ${singleLine(tool.description)}` : ''}`,
+    `func ${functionName}(ctx context.Context, req ${structName}) (map[string]interface{}, error) {`,
+    '\tserverURL := os.Getenv("TAZAPAY_SERVER_URL")',
+    '\tif serverURL == "" {',
+    '\t\tserverURL = defaultTazaPayServerURL',
+    '\t}',
+    '',
+    '\tpayload, err := json.Marshal(req)',
+    '\tif err != nil {',
+    `\t\treturn nil, fmt.Errorf("encode ${tool.name} request: %w", err)`,
+    '\t}',
+    '',
+    `\thttpReq, err := http.NewRequestWithContext(ctx, http.MethodPost, serverURL+${JSON.stringify(toolPath(tool))}, bytes.NewReader(payload))`,
+    '\tif err != nil {',
+    `\t\treturn nil, fmt.Errorf("build ${tool.name} request: %w", err)`,
+    '\t}',
+    '\thttpReq.Header.Set("Authorization", "Bearer "+os.Getenv("TAZAPAY_SECRET_KEY"))',
+    '\thttpReq.Header.Set("Content-Type", "application/json")',
+    '',
+    `\tclient := &http.Client{Timeout: ${REQUEST_TIMEOUT_SECONDS} * time.Second}`,
+    '\tresp, err := client.Do(httpReq)',
+    '\tif err != nil {',
+    `\t\treturn nil, fmt.Errorf("call ${tool.name}: %w", err)`,
+    '\t}',
+    '\tdefer resp.Body.Close()',
+    '',
+    '\tbody, err := io.ReadAll(resp.Body)',
+    '\tif err != nil {',
+    `\t\treturn nil, fmt.Errorf("read ${tool.name} response: %w", err)`,
+    '\t}',
+    '\tif resp.StatusCode < 200 || resp.StatusCode >= 300 {',
+    '\t\treturn nil, &APIError{StatusCode: resp.StatusCode, Body: string(body)}',
+    '\t}',
+    '',
+    '\tvar result map[string]interface{}',
+    '\tif err := json.Unmarshal(body, &result); err != nil {',
+    `\t\treturn nil, fmt.Errorf("decode ${tool.name} response: %w", err)`,
+    '\t}',
+    '\treturn result, nil',
+    '}'
+  ].join('\n');
+
+  const required = fields.filter(field => field.required);
+  const requiredWidth = Math.max(0, ...required.map(field => field.goName.length + 1));
+  const call = [
+    `result, err := ${functionName}(context.Background(), ${structName}{`,
+    ...required.map(field =>
+      `\t${padEnd(`${field.goName}:`, requiredWidth)} ${goLiteral(field.type, exampleValue(field.schema, root, field.name))},`),
+    '})',
+    'if err != nil {',
+    '\tvar apiErr *APIError',
+    '\tif errors.As(err, &apiErr) {',
+    `\t\tfmt.Fprintf(os.Stderr, "TazaPay rejected ${tool.name} (%d): %s\\n", apiErr.StatusCode, apiErr.Body)`,
+    '\t} else {',
+    '\t\tfmt.Fprintln(os.Stderr, err)',
+    '\t}',
+    '\tos.Exit(1)',
+    '}',
+    'fmt.Println(result)'
+  ].join('\n');
+
+  return {
+    imports: [
+      'package main',
+      '',
+      'import (',
+      ...['bytes', 'context', 'encoding/json', 'errors', 'fmt', 'io', 'net/http', 'os', 'time'].map(name => `\t"${name}"`),
+      ')'
+    ],
+    config: [{ name: 'defaultTazaPayServerURL', code: `const defaultTazaPayServerURL = ${JSON.stringify(serverUrl)}` }],
+    declarations: [
+      { name: structName, code: requestStruct },
+      { name: 'APIError', code: errorType },
+      { name: functionName, code: callFunction }
+    ],
+    call
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Java
+// ---------------------------------------------------------------------------
+
+/**
+ * Java type of a schema (boxed, so optional fields can be null)
+ */
+function javaType(schema: any, root: any, depth = 0): string {
+  const resolved = resolveSchema(schema, root);
+  if (depth > MAX_TYPE_DEPTH) {
+    return 'Object';
+  }
+  switch (schemaType(resolved)) {
+    case 'string': return 'String';
+    case 'integer': return 'Long';
+    case 'number': return 'Double';
+    case 'boolean': return 'Boolean';
+    case 'array': return `List<${javaType(resolved.items, root, depth + 1)}>`;
+    case 'object': return 'Map<String, Object>';
+    default: return 'Object';
+  }
+}
+
+/**
+ * Render a value of a Java type (collections start empty)
+ */
+function javaLiteral(type: string, value: any): string {
+  switch (type) {
+    case 'String': return JSON.stringify(typeof value === 'string' ? value : String(value ?? ''));
+    case 'Long': return `${Math.trunc(Number(value) || 0)}L`;
+    case 'Double': {
+      const number = Number(value) || 0;
+      return Number.isInteger(number) ? `${number}.0` : String(number);
+    }
+    case 'Boolean': return String(value === true);
+    case 'Object': return 'null';
+    default: return type.startsWith('List<') ? 'List.of()' : 'Map.of()';
+  }
+}
+
+/**
+ * Java: request class with Jackson annotations, checked exception and a client using java.net.http
+ */
+function javaCode(tool: MCPTool, serverUrl: string): CodeParts {
+  const root = tool.parameters;
+  const className = `${toPascalCase(tool.name)}Client`;
+  const requestName = `${toPascalCase(tool.name)}Request`;
+  const methodName = toCamelCase(tool.name);
+
+  const fields = getSchemaFields(root, root).map(field => {
+    const camel = toCamelCase(field.name);
+    return {
+      ...field,
+      javaName: JAVA_KEYWORDS.has(camel) ? `${camel}_` : camel,
+      accessor: JAVA_RESERVED_ACCESSORS.has(toPascalCase(field.name)) ? `${toPascalCase(field.name)}_` : toPascalCase(field.name),
+      type: javaType(field.schema, root)
+    };
+  });
+  const required = fields.filter(field => field.required);
+  const optional = fields.filter(field => !field.required);
+
+  const fieldLines = fields.flatMap(field => [
+    ...blockCommentLine(field.description) ? [`        /** ${blockCommentLine(field.description)} */`] : [],
+    `        @JsonProperty(${JSON.stringify(field.name)})`,
+    `        private ${field.required ? 'final ' : ''}${field.type} ${field.javaName};`
+  ]);
+  const constructorLines = [
+    `        public ${requestName}(${required.map(field => `${field.type} ${field.javaName}`).join(', ')}) {`,
+    ...required.map(field => `            this.${field.javaName} = ${field.javaName};`),
+    '        }'
+  ];
+  const accessorLines = fields.flatMap(field => [
+    '',
+    `        public ${field.type} get${field.accessor}() {`,
+    `            return ${field.javaName};`,
+    '        }'
+  ]);
+  const setterLines = optional.flatMap(field => [
+    '',
+    `        public ${requestName} with${field.accessor}(${field.type} ${field.javaName}) {`,
+    `            this.${field.javaName} = ${field.javaName};`,
+    '            return this;',
+    '        }'
+  ]);
+
+  // Left open: the main method and closing brace are added around the example call
+  const clientClass = [
+    '/**',
+    ` * Client for the ${tool.name} TazaPay tool.`,
+    ...blockCommentLine(tool.description) ? [` * ${blockCommentLine(tool.description)}`] : [],
+    ' */',
+    `public class ${className} {`,
+    `    private static final String SERVER_URL = System.getenv().getOrDefault("TAZAPAY_SERVER_URL", ${JSON.stringify(serverUrl)});`,
+    '    private static final String SECRET_KEY = System.getenv().getOrDefault("TAZAPAY_SECRET_KEY", "");',
+    '',
+    '    private final HttpClient http = HttpClient.newBuilder().connectTimeout(Duration.ofSeconds(10)).build();',
+    '    private final ObjectMapper mapper = new ObjectMapper();',
+    '',
+    `    /** Parameters of the ${tool.name} tool. Optional fields left null are not sent. */`,
+    '    @JsonInclude(JsonInclude.Include.NON_NULL)',
+    `    public static class ${requestName} {`,
+    ...fieldLines,
+    ...fieldLines.length > 0 ? [''] : [],
+    ...constructorLines,
+    ...accessorLines,
+    ...setterLines,
+    '    }',
+    '',
+    '    /** Thrown when TazaPay answers with a non-2xx status. */',
+    '    public static class TazaPayException extends Exception {',
+    '        private final int statusCode;',
+    '        private final String body;',
+    '',
+    '        public TazaPayException(int statusCode, String body) {',
+    `            super("${tool.name} returned " + statusCode + ": " + body);`,
+    '            this.statusCode = statusCode;',
+    '            this.body = body;',
+    '        }',
+    '',
+    '        public int getStatusCode() {',
+    '            return statusCode;',
+    '        }',
+    '',
+    '        public String getBody() {',
+    '            return body;',
+    '        }',
+    '    }',
+    '',
+    `    public JsonNode ${methodName}(${requestName} request) throws TazaPayException, IOException, InterruptedException {`,
+    `        HttpRequest httpRequest = HttpRequest.newBuilder(URI.create(SERVER_URL + ${JSON.stringify(toolPath(tool))}))`,
+    `                .timeout(Duration.ofSeconds(${REQUEST_TIMEOUT_SECONDS}))`,
+    '                .header("Authorization", "Bearer " + SECRET_KEY)',
+    '                .header("Content-Type", "application/json")',
+    '                .POST(HttpRequest.BodyPublishers.ofString(mapper.writeValueAsString(request)))',
+    '                .build();',
+    '',
+    '        HttpResponse<String> response = http.send(httpRequest, HttpResponse.BodyHandlers.ofString());',
+    '        if (response.statusCode() < 200 || response.statusCode() >= 300) {',
+    '            throw new TazaPayException(response.statusCode(), response.body());',
+    '        }',
+    '        return mapper.readTree(response.body());',
+    '    }'
+  ].join('\n');
+
+  const arguments_ = required.map(field => javaLiteral(field.type, exampleValue(field.schema, root, field.name)));
+  const call = [
+    `${className} client = new ${className}();`,
+    'try {',
+    `    JsonNode result = client.${methodName}(new ${requestName}(${arguments_.join(', ')}));`,
+    '    System.out.println(result.toPrettyString());',
+    '} catch (TazaPayException e) {',
+    `    System.err.println("TazaPay rejected ${tool.name} (" + e.getStatusCode() + "): " + e.getBody());`,
+    '}'
+  ].join('\n');
+
+  const types = fields.map(field => field.type).join(' ');
+  return {
+    imports: [
+      'import com.fasterxml.jackson.annotation.JsonInclude;',
+      'import com.fasterxml.jackson.annotation.JsonProperty;',
+      'import com.fasterxml.jackson.databind.JsonNode;',
+      'import com.fasterxml.jackson.databind.ObjectMapper;',
+      '',
+      'import java.io.IOException;',
+      'import java.net.URI;',
+      'import java.net.http.HttpClient;',
+      'import java.net.http.HttpRequest;',
+      'import java.net.http.HttpResponse;',
+      'import java.time.Duration;',
+      ...types.includes('List<') ? ['import java.util.List;'] : [],
+      ...types.includes('Map<') ? ['import java.util.Map;'] : []
+    ],
+    config: [],
+    declarations: [{ name: className, code: clientClass }],
+    call
+  };
+}
+
+// ---------------------------------------------------------------------------
+// cURL
+// ---------------------------------------------------------------------------
+
+/**
+ * cURL: a single request with the required fields filled in; optional fields listed in comments
+ */
+function curlCode(tool: MCPTool, serverUrl: string): string {
+  const root = tool.parameters;
+  const fields = getSchemaFields(root, root);
+  const example = exampleValue(root, root, tool.name);
+  const payload = JSON.stringify(example && typeof example === 'object' ? example : {}, null, 2).replace(/'/g, '\'\\\'\'');
+
+  const optional = fields
+    .filter(field => !field.required)
+    .map(field => `#   ${field.name} (${tsType(field.schema, root, 1)})${singleLine(field.description) ? ` - ${singleLine(field.description)}` : ''}`);
+
+  return [
+    ...headerLines(tool).map(line => `#${line ? ` ${line}` : ''}`),
+    ...optional.length > 0 ? ['#', '# Optional fields:', ...optional] : [],
+    '',
+    'curl --fail-with-body --silent --show-error \\',
+    `  --request POST "\${TAZAPAY_SERVER_URL:-${serverUrl}}${toolPath(tool)}" \\`,
+    '  --header "Authorization: Bearer ${TAZAPAY_SECRET_KEY}" \\',
+    '  --header "Content-Type: application/json" \\',
+    `  --max-time ${REQUEST_TIMEOUT_SECONDS} \\`,
+    `  --data '${payload}'`,
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,335 @@
+/**
+ * Offline Documentation Index
+ *
+ * This module answers documentation questions without the network. The extension ships with a
+ * snapshot of docs.tazapay.com, built when it is packaged (scripts/build-docs-snapshot.js); a newer
+ * one can be downloaded from `tazapay-mcp.offlineDocs.snapshotUrl`, kept in global storage and
+ * refreshed periodically. Sections of the snapshot are ranked with BM25 and the best matches are
+ * returned as excerpts linking to the snapshot's pages, naming its source and date.
+ *
+ * Features:
+ * - Bundled snapshot, replaced by a downloaded one when configured
+ * - Periodic refresh (`tazapay-mcp.offlineDocs.refreshIntervalHours`)
+ * - BM25 full-text search over page sections
+ * - Answers in the same shape as RAG answers, with sources
+ */
+
+import * as vscode from 'vscode';
+import { TIMEOUTS, httpClient } from './httpClient';
+import { RAGAnswer } from './ragClient';
+
+// Snapshot shipped with the extension (relative to the extension folder)
+const BUNDLED_SNAPSHOT = 'resources/tazapay-docs.json';
+
+// File name of the downloaded snapshot in global storage
+const DOWNLOADED_SNAPSHOT = 'tazapay-docs.json';
+
+// globalState key holding the time of the last successful download
+const LAST_REFRESH_KEY = 'tazapay.offlineDocsRefreshedAt';
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Number of sections quoted in an offline answer
+const MAX_EXCERPTS = 3;
+
+// Maximum length of a quoted excerpt
+const MAX_EXCERPT_LENGTH = 600;
+
+// Words too common to help ranking
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'should', 'so', 'that', 'the', 'this', 'to',
+  'use', 'what', 'when', 'where', 'which', 'with', 'you', 'your', 'tazapay'
+]);
+
+/**
+ * A section of a documentation page
+ */
+export interface DocsSection {
+  heading: string;   // Section heading
+  anchor?: string;   // Fragment id of the heading on the page
+  text: string;      // Plain-text section content
+}
+
+/**
+ * A documentation page in the snapshot
+ */
+export interface DocsPage {
+  url: string;             // Page URL on the documentation site
+  title: string;           // Page title
+  sections: DocsSection[];
+}
+
+/**
+ * A snapshot of the documentation site
+ */
+export interface DocsSnapshot {
+  version: string;      // Snapshot format version
+  generatedAt: string;  // ISO date the snapshot was taken
+  source?: string;      // Site the snapshot was taken from (defaults to the host it was downloaded from)
+  pages: DocsPage[];
+}
+
+/**
+ * A section matched by a search
+ */
+export interface DocsSearchResult {
+  page: DocsPage;
+  section: DocsSection;
+  url: string;    // Link to the section
+  score: number;  // BM25 score
+}
+
+/**
+ * A section prepared for ranking
+ */
+interface IndexedSection {
+  page: DocsPage;
+  section: DocsSection;
+  termFrequency: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Full-text index over a documentation snapshot
+ */
+export class DocsIndex implements vscode.Disposable {
+  private snapshot?: DocsSnapshot;                    // Snapshot currently indexed
+  private sections: IndexedSection[] = [];
+  private documentFrequency = new Map<string, number>(); // Number of sections containing each term
+  private averageLength = 0;
+  private refreshTimer?: NodeJS.Timeout;
+
+  /**
+   * @param context - Extension context (global storage)
+   */
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  /**
+   * Load the last downloaded snapshot (or the bundled one) and start the periodic refresh
+   */
+  async initialize(): Promise<void> {
+    const snapshot = await this.readSnapshot(this.getDownloadedUri())
+      ?? await this.readSnapshot(vscode.Uri.joinPath(this.context.extensionUri, BUNDLED_SNAPSHOT));
+    if (snapshot) {
+      this.build(snapshot);
+    }
+
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Download the snapshot from the configured URL if it is due (or when forced)
+   * @param force - Download even if the refresh interval hasn't passed
+   * @returns Promise<boolean> - true if a new snapshot was loaded
+   */
+  async refresh(force = false): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('tazapay-mcp');
+    const url = config.get<string>('offlineDocs.snapshotUrl', '');
+    if (!url) {
+      return false;
+    }
+
+    const intervalMs = this.getRefreshIntervalMs();
+    const lastRefresh = this.context.globalState.get<number>(LAST_REFRESH_KEY, 0);
+    if (!force && Date.now() - lastRefresh < intervalMs) {
+      return false;
+    }
+
+    try {
+      const response = await httpClient.get<string>(url, { timeoutMs: TIMEOUTS.download, responseType: 'text' });
+      const snapshot = parseSnapshot(response.data);
+      if (!snapshot) {
+        console.error('Offline docs snapshot has an unexpected format:', url);
+        return false;
+      }
+      snapshot.source = snapshot.source || new URL(url).host;
+
+      await vscode.workspace.fs.createDirectory(this.context.globalStorageUri);
+      await vscode.workspace.fs.writeFile(this.getDownloadedUri(), Buffer.from(JSON.stringify(snapshot), 'utf8'));
+      await this.context.globalState.update(LAST_REFRESH_KEY, Date.now());
+      this.build(snapshot);
+      return true;
+    } catch (error) {
+      console.log('Failed to refresh offline docs snapshot:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether a snapshot is loaded, so questions can be answered offline
+   */
+  get available(): boolean {
+    return this.sections.length > 0;
+  }
+
+  /**
+   * Rank snapshot sections against a query
+   * @param query - Free-text query
+   * @param limit - Maximum number of results
+   * @returns DocsSearchResult[] - Matching sections, best first
+   */
+  search(query: string, limit = MAX_EXCERPTS): DocsSearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.sections.length === 0) {
+      return [];
+    }
+
+    const total = this.sections.length;
+    return this.sections
+      .map(indexed => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = indexed.termFrequency.get(term);
+          if (!frequency) {
+            continue;
+          }
+          const documents = this.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+          score += idf * (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + B * indexed.length / this.averageLength));
+        }
+        return {
+          page: indexed.page,
+          section: indexed.section,
+          url: indexed.section.anchor ? `${indexed.page.url}#${indexed.section.anchor}` : indexed.page.url,
+          score
+        };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Answer a question with excerpts from the snapshot
+   * @param question - Natural language question
+   * @returns RAGAnswer | undefined - Excerpts and sources, or undefined if nothing matched
+   */
+  answer(question: string): RAGAnswer | undefined {
+    const results = this.search(question);
+    if (results.length === 0) {
+      return undefined;
+    }
+
+    const source = this.snapshot?.source ? ` of ${this.snapshot.source}` : '';
+    const date = this.snapshot ? new Date(this.snapshot.generatedAt).toLocaleDateString() : '';
+    const excerpts = results.map(result => {
+      const text = result.section.text.length > MAX_EXCERPT_LENGTH
+        ? result.section.text.substring(0, MAX_EXCERPT_LENGTH).replace(/\s+\S*$/, '') + '…'
+        : result.section.text;
+      return `### ${result.page.title} › ${result.section.heading}\n\n${text}\n\n[Read more](${result.url})`;
+    });
+
+    return {
+      answer: `> 📴 TazaPay's documentation service is unavailable, so these excerpts come from the offline documentation snapshot${source}${date ? ` taken ${date}` : ''}.\n\n` +
+        excerpts.join('\n\n'),
+      sources: results.map(result => ({
+        url: result.url,
+        title: result.page.title,
+        section: result.section.heading,
+        score: result.score
+      })),
+      offline: true
+    };
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+    }
+  }
+
+  private scheduleRefresh(): void {
+    this.refresh().catch(() => undefined);
+    this.refreshTimer = setInterval(() => this.refresh().catch(() => undefined), this.getRefreshIntervalMs());
+  }
+
+  private getRefreshIntervalMs(): number {
+    const hours = vscode.workspace.getConfiguration('tazapay-mcp').get<number>('offlineDocs.refreshIntervalHours', 24);
+    return Math.max(1, hours) * 60 * 60 * 1000;
+  }
+
+  private getDownloadedUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.context.globalStorageUri, DOWNLOADED_SNAPSHOT);
+  }
+
+  private async readSnapshot(uri: vscode.Uri): Promise<DocsSnapshot | undefined> {
+    try {
+      return parseSnapshot(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Index every section of a snapshot
+   * Titles and headings are counted twice so they weigh more than body text
+   */
+  private build(snapshot: DocsSnapshot): void {
+    this.snapshot = snapshot;
+    this.documentFrequency.clear();
+    this.sections = [];
+
+    for (const page of snapshot.pages) {
+      for (const section of page.sections) {
+        const terms = [
+          ...tokenize(page.title), ...tokenize(page.title),
+          ...tokenize(section.heading), ...tokenize(section.heading),
+          ...tokenize(section.text)
+        ];
+        const termFrequency = new Map<string, number>();
+        for (const term of terms) {
+          termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+        }
+        for (const term of termFrequency.keys()) {
+          this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+        }
+        this.sections.push({ page, section, termFrequency, length: terms.length });
+      }
+    }
+
+    this.averageLength = this.sections.reduce((sum, section) => sum + section.length, 0) / (this.sections.length || 1);
+  }
+}
+
+/**
+ * Split text into lower-case search terms
+ * Drops stop words and strips a plural "s" so "webhooks" matches "webhook"
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+/**
+ * Parse and sanity-check a snapshot file
+ * Malformed sections are skipped, so one bad entry doesn't stop the rest from being indexed
+ * @returns DocsSnapshot | undefined - undefined if the content isn't a snapshot
+ */
+export function parseSnapshot(content: string): DocsSnapshot | undefined {
+  const snapshot = typeof content === 'string' ? JSON.parse(content) : content;
+  if (!snapshot || !Array.isArray(snapshot.pages)) {
+    return undefined;
+  }
+  const pagesValid = snapshot.pages.every((page: any) =>
+    typeof page?.url === 'string' && typeof page.title === 'string' && Array.isArray(page.sections));
+  if (!pagesValid) {
+    return undefined;
+  }
+  return {
+    ...snapshot,
+    pages: snapshot.pages.map((page: DocsPage) => ({
+      ...page,
+      sections: page.sections.filter((section: any) =>
+        typeof section?.heading === 'string' &&
+        typeof section.text === 'string' &&
+        (section.anchor === undefined || typeof section.anchor === 'string'))
+    }))
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * TazaPay Environment Profiles
+ *
+ * This module manages named environment profiles (e.g. Sandbox and Production), each with its
+ * own API base URL, RAG URL and stored secret key, plus the status bar item used to switch between them.
+ *
+ * Features:
+ * - Profiles configured in the `tazapay-mcp.environments` setting
+ * - Active profile remembered across sessions
+ * - One-click status bar switcher with a warning color for live environments
+ * - Change event so clients and views can be rebuilt on switch
+ */
+
+import * as vscode from 'vscode';
+
+// globalState key holding the name of the active profile
+const ACTIVE_ENVIRONMENT_KEY = 'tazapay.activeEnvironment';
+
+/**
+ * A named TazaPay environment as configured in settings
+ */
+export interface EnvironmentProfile {
+  name: string;       // Display name and identifier (e.g. "Sandbox")
+  serverUrl: string;  // MCP / API base URL
+  ragUrl: string;     // Base URL of the documentation RAG service
+  live: boolean;      // Whether calls move real money
+}
+
+/**
+ * Tracks the configured environment profiles and which one is active
+ */
+export class EnvironmentManager implements vscode.Disposable {
+  // Event emitter fired after the active profile (or its settings) changed
+  private _onDidChangeEnvironment = new vscode.EventEmitter<EnvironmentProfile>();
+  readonly onDidChangeEnvironment: vscode.Event<EnvironmentProfile> = this._onDidChangeEnvironment.event;
+
+  private statusBarItem: vscode.StatusBarItem;  // Status bar switcher
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param context - Extension context used to persist the active profile
+   */
+  constructor(private readonly context: vscode.ExtensionContext) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    this.statusBarItem.command = 'tazapay-mcp.switchEnvironment';
+
+    this.disposables.push(
+      this._onDidChangeEnvironment,
+      this.statusBarItem,
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('tazapay-mcp.environments') || e.affectsConfiguration('tazapay-mcp.serverUrl')) {
+          this.updateStatusBar();
+          this._onDidChangeEnvironment.fire(this.getActive());
+        }
+      })
+    );
+
+    this.updateStatusBar();
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Read all configured profiles
+   * Profiles without a serverUrl fall back to `tazapay-mcp.serverUrl`, and without a ragUrl to their serverUrl
+   * @returns EnvironmentProfile[] - Configured profiles (never empty)
+   */
+  getProfiles(): EnvironmentProfile[] {
+    const config = vscode.workspace.getConfiguration('tazapay-mcp');
+    const defaultServerUrl = config.get<string>('serverUrl') || 'https://api.tazapay.com';
+    const configured = config.get<any[]>('environments') || [];
+
+    const profiles: EnvironmentProfile[] = configured
+      .filter(profile => profile && typeof profile.name === 'string' && profile.name.trim())
+      .map(profile => {
+        const serverUrl = stripTrailingSlash(profile.serverUrl || defaultServerUrl);
+        return {
+          name: profile.name.trim(),
+          serverUrl,
+          ragUrl: stripTrailingSlash(profile.ragUrl || serverUrl),
+          // Without an explicit flag, anything that doesn't look like a test server is treated as live
+          live: typeof profile.live === 'boolean' ? profile.live : !/sandbox|staging|localhost|127\.0\.0\.1/i.test(serverUrl)
+        };
+      });
+
+    if (profiles.length === 0) {
+      const serverUrl = stripTrailingSlash(defaultServerUrl);
+      profiles.push({ name: 'Production', serverUrl, ragUrl: serverUrl, live: true });
+    }
+    return profiles;
+  }
+
+  /**
+   * Get the active profile
+   * Falls back to the first configured profile if the remembered one no longer exists
+   */
+  getActive(): EnvironmentProfile {
+    const profiles = this.getProfiles();
+    const activeName = this.context.globalState.get<string>(ACTIVE_ENVIRONMENT_KEY);
+    return profiles.find(profile => profile.name === activeName) || profiles[0];
+  }
+
+  /**
+   * Make a profile active and notify listeners
+   * @param name - Name of a configured profile
+   */
+  async setActive(name: string): Promise<void> {
+    const profile = this.getProfiles().find(p => p.name === name);
+    if (!profile) {
+      throw new Error(`Unknown TazaPay environment "${name}"`);
+    }
+    if (profile.name === this.getActive().name) {
+      return;
+    }
+
+    await this.context.globalState.update(ACTIVE_ENVIRONMENT_KEY, profile.name);
+    this.updateStatusBar();
+    this._onDidChangeEnvironment.fire(profile);
+  }
+
+  /**
+   * Let the user pick the active profile from a quick pick
+   */
+  async pickEnvironment(): Promise<void> {
+    const active = this.getActive();
+    const selected = await vscode.window.showQuickPick(
+      this.getProfiles().map(profile => ({
+        label: `${profile.live ? '$(flame)' : '$(beaker)'} ${profile.name}`,
+        description: profile.serverUrl,
+        detail: profile.name === active.name ? 'Active' : (profile.live ? 'Live - real transactions' : undefined),
+        profile
+      })),
+      { placeHolder: 'Select the TazaPay environment to use' }
+    );
+
+    if (selected) {
+      await this.setActive(selected.profile.name);
+    }
+  }
+
+  /**
+   * Describe an environment for result headers and confirmations
+   * @param environment - Profile to describe (defaults to the active one)
+   * @returns string - e.g. "Sandbox (api-sandbox.tazapay.com)"
+   */
+  describe(environment: EnvironmentProfile = this.getActive()): string {
+    let host = environment.serverUrl;
+    try {
+      host = new URL(environment.serverUrl).host;
+    } catch {
+      // Keep the raw value if it is not a valid URL
+    }
+    return `${environment.name} (${host})`;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private updateStatusBar(): void {
+    const active = this.getActive();
+    this.statusBarItem.text = `${active.live ? '$(flame)' : '$(beaker)'} TazaPay: ${active.name}`;
+    this.statusBarItem.tooltip = `TazaPay environment: ${active.name}\n${active.serverUrl}\nClick to switch environment`;
+    this.statusBarItem.backgroundColor = active.live
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+  }
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
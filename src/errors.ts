@@ -0,0 +1,127 @@
+/**
+ * TazaPay API Errors
+ *
+ * Typed errors raised by the shared HTTP layer, so callers can react to the kind of failure
+ * (prompt for a new key, wait before retrying, fix a field...) and show accurate messages
+ * instead of a stringified axios error.
+ *
+ * Features:
+ * - One class per failure kind: authentication, rate limit, validation, server and network
+ * - `CancelledError` for requests the user stopped
+ * - HTTP status and server message kept on every error
+ * - `describeError` for user-facing messages
+ */
+
+/**
+ * Base class for errors returned by TazaPay services
+ */
+export class TazaPayApiError extends Error {
+  /**
+   * @param message - Human-readable description (the server's message when it sent one)
+   * @param status - HTTP status code (undefined when no response was received)
+   * @param details - Parsed response body, if any
+   */
+  constructor(message: string, public readonly status?: number, public readonly details?: any) {
+    super(message);
+    this.name = 'TazaPayApiError';
+  }
+}
+
+/**
+ * The secret key is missing, invalid or not allowed to perform the operation (401 / 403)
+ */
+export class AuthenticationError extends TazaPayApiError {
+  constructor(message: string, status?: number, details?: any) {
+    super(message, status, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitError extends TazaPayApiError {
+  /**
+   * @param retryAfterMs - Wait requested by the server's Retry-After header (if sent)
+   */
+  constructor(message: string, public readonly retryAfterMs?: number, details?: any) {
+    super(message, 429, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The server rejected the request data (400 / 422)
+ */
+export class ApiValidationError extends TazaPayApiError {
+  constructor(message: string, status?: number, details?: any) {
+    super(message, status, details);
+    this.name = 'ApiValidationError';
+  }
+}
+
+/**
+ * The server failed to process a valid request (5xx)
+ */
+export class ServerError extends TazaPayApiError {
+  constructor(message: string, status?: number, details?: any) {
+    super(message, status, details);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * No response was received: DNS, connection or timeout failure
+ */
+export class NetworkError extends TazaPayApiError {
+  /**
+   * @param timedOut - Whether the request hit its timeout
+   */
+  constructor(message: string, public readonly timedOut = false) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request was cancelled by the user (Cancel button, stopped chat request...)
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Build a user-facing message for any error
+ * @param error - Error thrown by a client or command
+ * @returns string - Message suitable for a notification
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof CancelledError) {
+    return 'The request was cancelled.';
+  }
+  if (error instanceof AuthenticationError) {
+    return `Authentication failed: ${error.message}. Check the secret key for the active environment.`;
+  }
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs !== undefined ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)} s.` : ' Please wait a moment and try again.';
+    return `Too many requests to TazaPay.${wait}`;
+  }
+  if (error instanceof ApiValidationError) {
+    return `TazaPay rejected the request: ${error.message}`;
+  }
+  if (error instanceof ServerError) {
+    return `TazaPay had a server error (${error.status}): ${error.message}. Please try again later.`;
+  }
+  if (error instanceof NetworkError) {
+    return error.timedOut
+      ? 'The request to TazaPay timed out. Please try again.'
+      : `Could not reach TazaPay: ${error.message}. Check your internet connection and server URL.`;
+  }
+  if (error instanceof TazaPayApiError) {
+    return error.status ? `TazaPay returned ${error.status}: ${error.message}` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,195 @@
+/**
+ * Tool Execution History
+ *
+ * This module records every tool invocation in extension storage so results survive after
+ * their editor tab is closed, and serves recorded responses as read-only documents for
+ * viewing and side-by-side diffs.
+ *
+ * Features:
+ * - One record per invocation: tool, parameters, environment, timestamp, duration, status, response
+ * - Bounded history persisted in globalState, with oversized payloads left out of each record
+ * - Live-environment payloads only recorded when `history.recordLivePayloads` is enabled
+ * - `tazapay-history:` documents for opening and diffing recorded responses
+ */
+
+import * as vscode from 'vscode';
+import { EnvironmentProfile } from './environments';
+import { MCPResponse } from './mcpClient';
+
+// globalState key holding the recorded executions (newest first)
+const HISTORY_KEY = 'tazapay.executionHistory';
+
+// Maximum number of executions kept in history
+const MAX_RECORDS = 200;
+
+// Largest serialized parameters or response kept in a single record (characters of JSON)
+const MAX_PAYLOAD_LENGTH = 64 * 1024;
+
+// URI scheme for read-only response documents
+export const HISTORY_SCHEME = 'tazapay-history';
+
+/**
+ * A single recorded tool invocation
+ */
+export interface ExecutionRecord {
+  id: string;               // Unique record id
+  tool: string;             // Tool name
+  parameters?: any;         // Parameters sent to the tool (omitted when not recorded)
+  environment: string;      // Environment profile name
+  environmentUrl: string;   // Server URL the call was sent to
+  timestamp: number;        // Start time (ms since epoch)
+  durationMs: number;       // Time until the response or error arrived
+  status: 'success' | 'error';
+  response?: MCPResponse;   // Tool response (if one was received)
+  error?: string;           // Error message (if the call failed)
+  omitted?: string;         // Why parameters or response were not recorded
+}
+
+/**
+ * Persistent store of tool executions
+ */
+export class ExecutionHistory implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  // Fires when records are added or removed
+  private _onDidChangeHistory = new vscode.EventEmitter<void>();
+  readonly onDidChangeHistory: vscode.Event<void> = this._onDidChangeHistory.event;
+
+  /**
+   * @param context - Extension context whose globalState holds the history
+   */
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  /**
+   * Run a tool call and record its outcome
+   * Errors are recorded and then re-thrown to the caller
+   * @param tool - Tool name
+   * @param parameters - Parameters sent to the tool
+   * @param environment - Environment the call runs against
+   * @param execute - Performs the actual call
+   * @returns Promise<MCPResponse> - The tool response
+   */
+  async track(
+    tool: string,
+    parameters: any,
+    environment: EnvironmentProfile,
+    execute: () => Promise<MCPResponse>
+  ): Promise<MCPResponse> {
+    const timestamp = Date.now();
+    const recordPayloads = !environment.live
+      || vscode.workspace.getConfiguration('tazapay-mcp').get<boolean>('history.recordLivePayloads', false);
+    const base = {
+      id: `${timestamp.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      tool,
+      parameters: recordPayloads ? parameters : undefined,
+      environment: environment.name,
+      environmentUrl: environment.serverUrl,
+      timestamp,
+      omitted: recordPayloads ? undefined : 'Live payloads are not recorded (tazapay-mcp.history.recordLivePayloads)'
+    };
+
+    try {
+      const response = await execute();
+      await this.add({
+        ...base,
+        durationMs: Date.now() - timestamp,
+        status: response && response.success === false ? 'error' : 'success',
+        response: recordPayloads ? response : undefined,
+        error: response?.success === false ? response.error : undefined
+      });
+      return response;
+    } catch (error) {
+      await this.add({
+        ...base,
+        durationMs: Date.now() - timestamp,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all records, newest first
+   */
+  getAll(): ExecutionRecord[] {
+    return this.context.globalState.get<ExecutionRecord[]>(HISTORY_KEY, []);
+  }
+
+  /**
+   * Find a record by id
+   */
+  get(id: string): ExecutionRecord | undefined {
+    return this.getAll().find(record => record.id === id);
+  }
+
+  /**
+   * Remove a single record
+   */
+  async remove(id: string): Promise<void> {
+    await this.context.globalState.update(HISTORY_KEY, this.getAll().filter(record => record.id !== id));
+    this._onDidChangeHistory.fire();
+  }
+
+  /**
+   * Remove all records
+   */
+  async clear(): Promise<void> {
+    await this.context.globalState.update(HISTORY_KEY, []);
+    this._onDidChangeHistory.fire();
+  }
+
+  /**
+   * URI of the read-only document showing a record's full response
+   */
+  getResponseUri(record: ExecutionRecord): vscode.Uri {
+    const time = new Date(record.timestamp).toISOString().replace(/[:.]/g, '-');
+    return vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${record.tool}-${time}.json`, query: record.id });
+  }
+
+  /**
+   * Render a record as JSON for `tazapay-history:` documents
+   * Required by TextDocumentContentProvider interface
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const record = this.get(uri.query);
+    if (!record) {
+      return '// This execution is no longer in the history';
+    }
+    return JSON.stringify({
+      tool: record.tool,
+      environment: `${record.environment} (${record.environmentUrl})`,
+      timestamp: new Date(record.timestamp).toISOString(),
+      durationMs: record.durationMs,
+      status: record.status,
+      parameters: record.parameters,
+      response: record.response,
+      error: record.error,
+      omitted: record.omitted
+    }, null, 2);
+  }
+
+  dispose(): void {
+    this._onDidChangeHistory.dispose();
+  }
+
+  private async add(record: ExecutionRecord): Promise<void> {
+    const records = [limitPayloads(record), ...this.getAll()].slice(0, MAX_RECORDS);
+    await this.context.globalState.update(HISTORY_KEY, records);
+    this._onDidChangeHistory.fire();
+  }
+}
+
+/**
+ * Leave out parameters and responses that are too large to keep in globalState
+ * and note which ones were dropped in the record's `omitted` field
+ */
+function limitPayloads(record: ExecutionRecord): ExecutionRecord {
+  const reasons = record.omitted ? [record.omitted] : [];
+  for (const field of ['parameters', 'response'] as const) {
+    const length = JSON.stringify(record[field])?.length ?? 0;
+    if (length > MAX_PAYLOAD_LENGTH) {
+      record = { ...record, [field]: undefined };
+      reasons.push(`${field === 'parameters' ? 'Parameters' : 'Response'} too large to record (${Math.round(length / 1024)} KB)`);
+    }
+  }
+  return reasons.length > 0 ? { ...record, omitted: reasons.join('; ') } : record;
+}
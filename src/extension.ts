@@ -13,15 +13,46 @@
  */
 
 import * as vscode from 'vscode';
-import { MCPClient, MCPTool } from './mcpClient';
-import { MCPTreeProvider } from './mcpTreeProvider';
-import { TazaPayRAGClient } from './ragClient';
+import { AnswerCache } from './answerCache';
+import { TazaPayChatParticipant } from './chatParticipant';
+import { GENERATED_CLIENT_MARKER, generateTypeScriptClient, isValidIdentifier, resolveOutputPath } from './clientGenerator';
+import { TazaPayCodeActionProvider, buildInsertionEdit, isInsertableLanguage } from './codeActions';
+import { CODE_LANGUAGES, generateIntegrationCode, languageForEditor, unsupportedTransportMessage } from './codeGenerator';
+import { DocsIndex } from './docsIndex';
+import { EnvironmentManager } from './environments';
+import { CancelledError, describeError } from './errors';
+import { toAbortSignal } from './httpClient';
+import { ExecutionHistory, ExecutionRecord, HISTORY_SCHEME } from './executionHistory';
+import { HistoryTreeItem, HistoryTreeProvider } from './historyTreeProvider';
+import { TazaPayLanguageModelTools } from './languageModelTools';
+import { MCPTool } from './mcpClient';
+import { TazaPayMcpServerProvider } from './mcpServerProvider';
+import { MCPTreeItem, MCPTreeProvider } from './mcpTreeProvider';
+import { RAGAnswer, TazaPayRAGClient, formatSourcesMarkdown } from './ragClient';
+import { ParameterValidationError, formatValidationIssues, validateParameters } from './schemaValidator';
+import { SecretKeyStore } from './secretStore';
+import { TazaPaySession } from './session';
+import { ToolDetailsPanel } from './toolDetailsView';
+import { ToolParameterForm } from './toolParameterForm';
+import { guardToolExecution } from './toolSafety';
+import { WebhookEventTemplate, buildEventPayload, loadEventCatalog, sendWebhookEvent } from './webhookEvents';
+import { ForwardResult, WEBHOOK_SCHEME, WebhookReceiver } from './webhookReceiver';
+import { WebhookSecretStore, getSignatureHeader } from './webhookSignature';
+import { WebhookDeliveryItem, WebhookTreeProvider } from './webhookTreeProvider';
 import { WelcomeViewProvider } from './welcomeView';
 
 // Global extension state variables
-let mcpClient: MCPClient | null = null;  // MCP client for API communication
+let session: TazaPaySession;            // Connection to the MCP server for the active environment
 let mcpTreeProvider: MCPTreeProvider;    // Tree view provider for MCP tools
 let ragClient: TazaPayRAGClient;         // RAG client for documentation queries
+let docsIndex: DocsIndex;                // Offline documentation snapshot search
+let answerCache: AnswerCache;            // Cached documentation answers
+let secretKeyStore: SecretKeyStore;      // Secure storage for the TazaPay secret keys
+let environments: EnvironmentManager;    // Sandbox / production environment profiles
+let executionHistory: ExecutionHistory;  // Persistent record of tool invocations
+let languageModelTools: TazaPayLanguageModelTools; // Discovered tools exposed to Copilot agent mode
+let webhookSecretStore: WebhookSecretStore;  // Secure storage for the webhook signing secret
+let webhookReceiver: WebhookReceiver;        // Local listener capturing webhook deliveries
 
 /**
  * Extension activation function - called when the extension is activated
@@ -31,221 +62,130 @@ export function activate(context: vscode.ExtensionContext) {
 	console.log('TazaPay MCP Integration extension is now active!');
 
 	// Initialize the MCP tree provider for displaying tools in the sidebar
-	mcpTreeProvider = new MCPTreeProvider();
-	vscode.window.registerTreeDataProvider('tazapayMcpTools', mcpTreeProvider);
+	mcpTreeProvider = new MCPTreeProvider(context.globalState);
+	const toolsTreeView = vscode.window.createTreeView('tazapayMcpTools', { treeDataProvider: mcpTreeProvider });
+	context.subscriptions.push(toolsTreeView);
 	
-	// Initialize the RAG client for documentation queries
-	ragClient = new TazaPayRAGClient();
-
-	// Register the welcome view provider for the extension's main interface
-	const welcomeProvider = new WelcomeViewProvider(context.extensionUri, context);
+	// Track environment profiles and show the active one in the status bar
+	environments = new EnvironmentManager(context);
+	context.subscriptions.push(environments);
+
+	// Load the offline documentation snapshot used when the RAG service is unavailable
+	docsIndex = new DocsIndex(context);
+	context.subscriptions.push(docsIndex);
+	docsIndex.initialize().catch(error => console.error('Failed to load offline docs:', error));
+
+	// Initialize the RAG client for documentation queries, with answers cached across sessions
+	answerCache = new AnswerCache(context);
+	ragClient = new TazaPayRAGClient(environments.getActive().ragUrl, docsIndex, answerCache);
+
+	// Record every tool invocation and show it in the History view
+	executionHistory = new ExecutionHistory(context);
+	const historyTreeProvider = new HistoryTreeProvider(executionHistory);
 	context.subscriptions.push(
-		vscode.window.registerWebviewViewProvider('tazapayMcpWelcome', welcomeProvider)
+		executionHistory,
+		historyTreeProvider,
+		vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, executionHistory),
+		vscode.window.createTreeView('tazapayMcpHistory', { treeDataProvider: historyTreeProvider, canSelectMany: true })
 	);
 
-	// Automatically show the welcome view after extension loads
-	// Small delay ensures the view container is ready
-	setTimeout(() => {
-		vscode.commands.executeCommand('tazapayMcpWelcome.focus');
-	}, 1000);
+	// Capture webhook deliveries on a local port and show them in the Webhooks view
+	webhookSecretStore = new WebhookSecretStore(context.secrets);
+	webhookReceiver = new WebhookReceiver(webhookSecretStore);
+	const webhookTreeProvider = new WebhookTreeProvider(webhookReceiver);
+	context.subscriptions.push(
+		webhookReceiver,
+		webhookTreeProvider,
+		vscode.workspace.registerTextDocumentContentProvider(WEBHOOK_SCHEME, webhookReceiver),
+		vscode.window.createTreeView('tazapayMcpWebhooks', { treeDataProvider: webhookTreeProvider }),
+		webhookReceiver.onDidChangeDeliveries(() =>
+			vscode.commands.executeCommand('setContext', 'tazapay-mcp.webhookListenerRunning', webhookReceiver.isRunning()))
+	);
 
-	/**
-	 * Register the @tazapay chat participant for GitHub Copilot Chat
-	 * This enables users to type "@tazapay <question>" in Copilot Chat to get TazaPay assistance
-	 */
-	const chatParticipant = vscode.chat.createChatParticipant('tazapay.assistant', async (request, context, stream, token) => {
-		try {
-			const userMessage = request.prompt.trim();
-			
-			// Show typing indicator while processing the request
-			stream.progress('Processing your TazaPay question...');
-			
-			let response: string;
-			
-			// Handle help requests or empty messages with a welcome message
-			if (!userMessage || userMessage.toLowerCase() === 'help') {
-				response = `
-
-
-
-### 💡 Try asking:
-- "How do I create a payment?"
-- "What webhook events are available?"
-- "Show me a payment integration example"
-- "How does TazaPay escrow work?"
-
-*Note: For detailed technical support, visit [TazaPay Documentation](https://docs.tazapay.com)*`;
-			} else {
-				try {
-					// Try to use the RAG client for intelligent responses
-					response = await ragClient.queryRAG(userMessage);
-				} catch (ragError) {
-					console.log('RAG client error, using fallback response:', ragError);
-					// Use fallback responses for common questions when RAG fails
-					response = getFallbackResponse(userMessage);
-				}
-			}
-			
-			// Stream the response as markdown to the chat
-			stream.markdown(response);
-			
-			// Add contextual follow-up buttons based on the user's question
-			if (userMessage.toLowerCase().includes('payment') || userMessage.toLowerCase().includes('api')) {
-				stream.button({
-					command: 'tazapay-mcp.generateCode',
-					title: '📝 Generate Code Example',
-					arguments: []
-				});
-			}
-			
-			if (userMessage.toLowerCase().includes('webhook')) {
-				stream.button({
-					command: 'tazapay-mcp.listTools',
-					title: '🔗 View Webhook Tools',
-					arguments: []
-				});
-			}
-			
-		} catch (error) {
-			console.error('Chat participant error:', error);
-			stream.markdown(`❌ **Error:** I encountered an issue processing your request. 
+	// Expose discovered tools to Copilot agent mode
+	languageModelTools = new TazaPayLanguageModelTools(() => session.client, environments, executionHistory);
+	context.subscriptions.push(languageModelTools);
 
-**Troubleshooting:**
-- Make sure you have an internet connection
-- Try rephrasing your question
-- Visit [TazaPay Support](https://support.tazapay.com) for direct help
+	// Keep one secret key per environment in SecretStorage and move any plaintext key out of settings.json
+	secretKeyStore = new SecretKeyStore(context.secrets, () => environments.getActive().name);
 
-**Example questions that work:**
-- @tazapay help
-- @tazapay How do I create a payment?
-- @tazapay What are webhook events?`);
-		}
-	});
+	// Own the MCP connection: silent sign-in from the stored key, state changes and health checks
+	session = new TazaPaySession(secretKeyStore, environments, answerCache);
+	context.subscriptions.push(session);
+	// Connection state lives in the session now; drop the flag older versions persisted
+	context.globalState.update('tazapay.isAuthenticated', undefined);
 
-	/**
-	 * Helper function to provide fallback responses when RAG client fails
-	 * Returns appropriate responses for common TazaPay questions
-	 * @param userMessage - The user's question/input
-	 * @returns Markdown formatted response string
-	 */
-	function getFallbackResponse(userMessage: string): string {
-		const lowerMsg = userMessage.toLowerCase();
-		
-		// Payment creation questions
-		if (lowerMsg.includes('payment') && lowerMsg.includes('create')) {
-			return `# 💳 Creating Payments with TazaPay
-
-## Quick Start
-\`\`\`javascript
-const payment = await tazapay.createPayment({
-  amount: 1000,
-  currency: 'USD',
-  description: 'Payment for services',
-  buyer_email: 'buyer@example.com',
-  seller_email: 'seller@example.com'
-});
-\`\`\`
-
-## Next Steps
-1. Set up webhook endpoints
-2. Handle payment confirmations
-3. Implement escrow release logic
-
-*For complete documentation, visit [TazaPay API Docs](https://docs.tazapay.com)*`;
+	// Restore the session once any plaintext key has been moved to secure storage
+	secretKeyStore.migrateFromSettings().then(migrated => {
+		if (migrated) {
+			vscode.window.showInformationMessage('Your TazaPay secret key was moved from settings.json to secure storage.');
 		}
-		
-		// Webhook-related questions
-		if (lowerMsg.includes('webhook')) {
-			return `# 🔔 TazaPay Webhook Events
-
-## Common Events
-- \`payment.created\` - New payment initiated
-- \`payment.completed\` - Payment successfully processed
-- \`escrow.released\` - Funds released from escrow
-- \`dispute.created\` - Dispute opened by buyer/seller
-
-## Example Handler
-\`\`\`javascript
-app.post('/webhook', (req, res) => {
-  const event = req.body;
-  
-  switch(event.type) {
-    case 'payment.completed':
-      // Handle successful payment
-      break;
-    case 'escrow.released':
-      // Handle escrow release
-      break;
-  }
-  
-  res.status(200).send('OK');
-});
-\`\`\`
-
-*Set up webhooks in your [TazaPay Dashboard](https://dashboard.tazapay.com)*`;
-		}
-		
-		// Escrow-related questions
-		if (lowerMsg.includes('escrow')) {
-			return `# 🔒 TazaPay Escrow Services
-
-## How It Works
-1. **Buyer** pays into secure escrow
-2. **Seller** delivers goods/services
-3. **Buyer** confirms satisfaction
-4. **Funds** automatically released to seller
-
-## Benefits
-- ✅ **Secure** transactions
-- ✅ **Dispute** protection
-- ✅ **Global** compliance
-- ✅ **Multi-currency** support
-
-*Learn more at [TazaPay Escrow Guide](https://docs.tazapay.com/escrow)*`;
+	}, error => {
+		console.error('Failed to migrate secret key to secure storage:', error);
+	}).then(() => session.connect()).catch(error => {
+		console.error('Failed to restore the TazaPay session:', error);
+	}).then(async () => {
+		// A key in workspace settings may come from a cloned repository: only imported if the user agrees
+		if (await secretKeyStore.importFromWorkspaceSettings()) {
+			await session.connect();
 		}
-		
-		// Default response for unrecognized questions
-		return `# 🤔 TazaPay Information
-
-I can help with TazaPay's payment and escrow services. Try asking about:
-
-- **Payments** - API integration, processing
-- **Webhooks** - Event handling, notifications  
-- **Escrow** - Secure transaction management
-- **Integration** - Code examples, best practices
+	}).catch(error => {
+		console.error('Failed to import the secret key from workspace settings:', error);
+	});
 
-**Example:** "@tazapay How do I create a payment?"
+	// Let VS Code's built-in MCP support discover the TazaPay server
+	const mcpServerProvider = new TazaPayMcpServerProvider(secretKeyStore, environments);
+	context.subscriptions.push(
+		mcpServerProvider,
+		vscode.lm.registerMcpServerDefinitionProvider('tazapay.mcpServer', mcpServerProvider)
+	);
 
-*For detailed documentation, visit [docs.tazapay.com](https://docs.tazapay.com)*`;
-	}
+	// Register the welcome view provider for the extension's main interface
+	const welcomeProvider = new WelcomeViewProvider(context.extensionUri, context, secretKeyStore, session);
+	context.subscriptions.push(
+		vscode.window.registerWebviewViewProvider('tazapayMcpWelcome', welcomeProvider)
+	);
 
-	// Set the custom TazaPay icon for the chat participant
-	chatParticipant.iconPath = vscode.Uri.file(context.asAbsolutePath('chat-icon.svg'));
-	
-	// Provide suggested follow-up questions after each chat interaction
-	chatParticipant.followupProvider = {
-		provideFollowups(result, context, token) {
-			return [
-				{
-					prompt: 'How do I create a payment?',
-					label: '💳 Payment Creation',
-					command: 'followup'
-				},
-				{
-					prompt: 'What are the webhook events?',
-					label: '🔔 Webhook Events',
-					command: 'followup'
-				},
-				{
-					prompt: 'Show me integration examples',
-					label: '💻 Code Examples',
-					command: 'followup'
-				}
-			];
+	// The RAG client is bound to one environment - rebuild it whenever the active profile changes
+	// (the session reconnects itself)
+	context.subscriptions.push(environments.onDidChangeEnvironment(async environment => {
+		ragClient = new TazaPayRAGClient(environment.ragUrl, docsIndex, answerCache);
+		await answerCache.retainScopes([environment.ragUrl, environment.serverUrl]);
+	}));
+
+	// The tools tree, agent mode tools and welcome view follow the session
+	context.subscriptions.push(session.onDidChangeState(() => {
+		const tools = session.getTools();
+		mcpTreeProvider.updateTools(tools);
+		languageModelTools.update(tools);
+		welcomeProvider.refreshAuthState();
+	}));
+
+	// Automatically show the welcome view after extension loads when there is no key to sign in with
+	// Small delay ensures the view container is ready
+	setTimeout(() => {
+		if (session.getStatus().state === 'signedOut') {
+			vscode.commands.executeCommand('tazapayMcpWelcome.focus');
 		}
-	};
+	}, 1000);
 
-	context.subscriptions.push(chatParticipant);
+	/**
+	 * Register the @tazapay chat participant for GitHub Copilot Chat
+	 * This enables users to type "@tazapay <question>" (or a slash command) in Copilot Chat to get TazaPay assistance
+	 */
+	context.subscriptions.push(new TazaPayChatParticipant(context, {
+		getRagClient: () => ragClient,
+		getMcpClient: () => session.client,
+		environments,
+		history: executionHistory
+	}));
+
+	// Offer "Add TazaPay <tool> call" in JavaScript, TypeScript and Python files
+	context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+		TazaPayCodeActionProvider.selector,
+		new TazaPayCodeActionProvider(() => session.client, environments),
+		{ providedCodeActionKinds: TazaPayCodeActionProvider.providedCodeActionKinds }
+	));
 
 	// Welcome view command
 	const showWelcomeCommand = vscode.commands.registerCommand('tazapay-mcp.showWelcome', () => {
@@ -253,11 +193,12 @@ I can help with TazaPay's payment and escrow services. Try asking about:
 	});
 
 	// Open Copilot Chat command (similar to Stripe's "Ask a question")
-	const openCopilotChatCommand = vscode.commands.registerCommand('tazapay-mcp.openCopilotChat', async () => {
+	// An optional query (e.g. a question about a tool) replaces the bare "@tazapay " prompt
+	const openCopilotChatCommand = vscode.commands.registerCommand('tazapay-mcp.openCopilotChat', async (query = '@tazapay ') => {
 		try {
 			// Try to open Copilot Chat with @tazapay pre-filled
 			await vscode.commands.executeCommand('workbench.action.chat.open', {
-				query: '@tazapay '
+				query
 			});
 		} catch {
 			try {
@@ -267,7 +208,7 @@ I can help with TazaPay's payment and escrow services. Try asking about:
 				setTimeout(async () => {
 					try {
 						await vscode.commands.executeCommand('workbench.action.chat.open', {
-							query: '@tazapay '
+							query
 						});
 					} catch {
 						// If that fails, just show a helpful message
@@ -302,59 +243,83 @@ I can help with TazaPay's payment and escrow services. Try asking about:
 	});
 
 	// Authentication command
-	const authenticateCommand = vscode.commands.registerCommand('tazapay-mcp.authenticate', async () => {
-		const config = vscode.workspace.getConfiguration('tazapay-mcp');
-		const serverUrl = config.get<string>('serverUrl');
-		let secretKey = config.get<string>('secretKey');
+	// Resolves to true when the active environment was authenticated successfully
+	const authenticateCommand = vscode.commands.registerCommand('tazapay-mcp.authenticate', async (): Promise<boolean> => {
+		const environment = environments.getActive();
+		const secretKey = await secretKeyStore.get();
 
-		if (!secretKey) {
+		// Ask for a key when none is stored or the stored one was rejected
+		if (!secretKey || session.isRejected(secretKey)) {
 			const input = await vscode.window.showInputBox({
-				prompt: 'Enter your MCP Secret Key',
+				prompt: secretKey
+					? `Your MCP Secret Key for ${environment.name} was rejected. Enter a new one`
+					: `Enter your MCP Secret Key for ${environment.name}`,
 				password: true,
 				ignoreFocusOut: true
 			});
 
 			if (!input) {
-				return;
+				return false;
 			}
 
-			secretKey = input;
-			await config.update('secretKey', input, vscode.ConfigurationTarget.Global);
+			await secretKeyStore.store(input);
 		}
 
-		const finalServerUrl = serverUrl || 'https://api.tazapay.com';
+		try {
+			const status = await withCancellableProgress(`Connecting to TazaPay (${environment.name})...`, signal => session.connect(signal));
+			if (status.state === 'connected') {
+				vscode.window.showInformationMessage(`Successfully authenticated with MCP service (${environment.name})`);
+				return true;
+			}
+			if (status.state === 'unauthorized') {
+				vscode.window.showErrorMessage(`Authentication failed for ${environment.name}. Please check your secret key.`);
+			} else if (status.error) {
+				vscode.window.showErrorMessage(status.error);
+			}
+		} catch (error) {
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(describeError(error));
+			}
+		}
+		return false;
+	});
 
-		if (!secretKey) {
-			vscode.window.showErrorMessage('Secret key is required');
-			return;
+	// Check connection command (also bound to the status bar item while connected or offline)
+	const checkConnectionCommand = vscode.commands.registerCommand('tazapay-mcp.checkConnection', async () => {
+		const { state } = session.getStatus();
+		if (state !== 'connected' && state !== 'offline') {
+			return vscode.commands.executeCommand('tazapay-mcp.authenticate');
 		}
 
-		mcpClient = new MCPClient(finalServerUrl, secretKey);
-		
 		try {
-			const authenticated = await mcpClient.authenticate();
-			if (authenticated) {
-				vscode.window.showInformationMessage('Successfully authenticated with MCP service');
-				// Fetch and display tools
-				const tools = await mcpClient.getTools();
-				mcpTreeProvider.updateTools(tools);
-			} else {
-				vscode.window.showErrorMessage('Authentication failed. Please check your secret key.');
+			const status = await withCancellableProgress('Checking the TazaPay connection...', signal => session.checkHealth(signal));
+			if (status.state === 'connected') {
+				vscode.window.showInformationMessage(`Connected to ${status.environment} (${status.toolCount} tools available)`);
+			} else if (status.state === 'offline') {
+				vscode.window.showErrorMessage(`TazaPay (${status.environment}) is unreachable: ${status.error}`);
 			}
 		} catch (error) {
-			vscode.window.showErrorMessage(`Authentication error: ${error}`);
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(describeError(error));
+			}
 		}
 	});
 
+	// Switch environment command (also bound to the status bar item)
+	const switchEnvironmentCommand = vscode.commands.registerCommand('tazapay-mcp.switchEnvironment', async () => {
+		await environments.pickEnvironment();
+	});
+
 	// List tools command
 	const listToolsCommand = vscode.commands.registerCommand('tazapay-mcp.listTools', async () => {
-		if (!mcpClient || !mcpClient.isConnected()) {
+		const client = session.client;
+		if (!client) {
 			vscode.window.showWarningMessage('Please authenticate first');
 			return;
 		}
 
 		try {
-			const tools = await mcpClient.getTools();
+			const tools = await withCancellableProgress('Fetching TazaPay tools...', signal => client.getTools(signal));
 			const toolsText = tools.map(tool => `${tool.name}: ${tool.description}`).join('\n');
 			
 			const doc = await vscode.workspace.openTextDocument({
@@ -364,55 +329,468 @@ I can help with TazaPay's payment and escrow services. Try asking about:
 			
 			await vscode.window.showTextDocument(doc);
 		} catch (error) {
-			vscode.window.showErrorMessage(`Failed to fetch tools: ${error}`);
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(`Failed to fetch tools: ${describeError(error)}`);
+			}
 		}
 	});
 
 	// Execute tool command
-	const executeToolCommand = vscode.commands.registerCommand('tazapay-mcp.executeTool', async (tool: MCPTool) => {
-		if (!mcpClient || !mcpClient.isConnected()) {
+	// Invoked with the tool when an item is clicked, and with the tree item from the context menu
+	const executeToolCommand = vscode.commands.registerCommand('tazapay-mcp.executeTool', async (target: MCPTool | MCPTreeItem) => {
+		const tool = target instanceof MCPTreeItem ? target.tool : target;
+		if (!session.client) {
 			vscode.window.showWarningMessage('Please authenticate first');
 			return;
 		}
 
 		try {
-			// Get parameters from user
-			const parametersStr = await vscode.window.showInputBox({
-				prompt: `Enter parameters for ${tool.name} (JSON format)`,
-				placeHolder: '{"param1": "value1", "param2": "value2"}',
-				value: '{}',
-				ignoreFocusOut: true
+			// Get parameters from user through a form generated from the tool's schema
+			const parameters = await ToolParameterForm.show(context, tool, values => validateParameters(tool.parameters, values));
+			if (parameters === undefined) {
+				return;
+			}
+
+			await runTool(tool, parameters);
+		} catch (error) {
+			showToolError(tool, error);
+		}
+	});
+
+	/**
+	 * Run a tool with the given parameters, record it in history and show the result
+	 * Shared by the execute command and the history re-run actions
+	 * @param tool - Tool to run
+	 * @param parameters - Parameters to send
+	 */
+	async function runTool(tool: MCPTool, parameters: any): Promise<void> {
+		const client = session.client;
+		if (!client) {
+			vscode.window.showWarningMessage('Please authenticate first');
+			return;
+		}
+
+		// Captured before the call, so the result names the environment it ran in even if the user switches meanwhile
+		const environment = environments.getActive();
+
+		// Mutating tools against a live environment need explicit confirmation (or are blocked)
+		if (!(await guardToolExecution(tool, parameters, environment))) {
+			return;
+		}
+
+		const result = await withCancellableProgress(`Running ${tool.name} in ${environment.name}...`, signal =>
+			executionHistory.track(tool.name, parameters, environment, () => client.executeTool(tool.name, parameters, signal)));
+		
+		// Show result in a new document
+		const doc = await vscode.workspace.openTextDocument({
+			content: `Tool: ${tool.name}\nEnvironment: ${environments.describe(environment)}\nParameters: ${JSON.stringify(parameters, null, 2)}\n\nResult:\n${JSON.stringify(result, null, 2)}`,
+			language: 'json'
+		});
+		
+		await vscode.window.showTextDocument(doc);
+	}
+
+	/**
+	 * Find the tool a history record refers to in the current session
+	 * @returns The tool, or undefined (with a warning) if it isn't available
+	 */
+	function findToolForRecord(item: HistoryTreeItem): MCPTool | undefined {
+		if (!session.client) {
+			vscode.window.showWarningMessage('Please authenticate first');
+			return undefined;
+		}
+		const tool = session.client.getAvailableTools().find(t => t.name === item.record.tool);
+		if (!tool) {
+			vscode.window.showWarningMessage(`Tool ${item.record.tool} is not available in ${environments.getActive().name}`);
+		}
+		return tool;
+	}
+
+	/**
+	 * Report a failed tool run, listing per-field problems for validation errors
+	 */
+	function showToolError(tool: MCPTool, error: unknown): void {
+		if (error instanceof CancelledError) {
+			// The request may still have reached the server before it was aborted
+			vscode.window.showWarningMessage(`${tool.name} was cancelled. Check the History view - the server may already have processed it.`);
+			return;
+		}
+		if (error instanceof ParameterValidationError) {
+			vscode.window.showErrorMessage(`Invalid parameters for ${tool.name}`, {
+				modal: true,
+				detail: formatValidationIssues(error.issues)
 			});
+			return;
+		}
+		vscode.window.showErrorMessage(`Failed to execute tool: ${describeError(error)}`);
+	}
+
+	// Tools view: fetch the tool list again
+	const refreshToolsCommand = vscode.commands.registerCommand('tazapay-mcp.tools.refresh', async () => {
+		if (!session.client) {
+			vscode.window.showWarningMessage('Please authenticate first');
+			return;
+		}
+
+		try {
+			// The tree and agent mode tools update from the session's state change
+			await withCancellableProgress('Fetching TazaPay tools...', signal => session.refreshTools(signal));
+		} catch (error) {
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(`Failed to fetch tools: ${describeError(error)}`);
+			}
+		}
+	});
+
+	// Tools view: filter by name, title, description or category
+	const filterToolsCommand = vscode.commands.registerCommand('tazapay-mcp.tools.filter', async () => {
+		const filter = await vscode.window.showInputBox({
+			prompt: 'Show tools whose name, description or category contains',
+			placeHolder: 'payout',
+			value: mcpTreeProvider.getFilter()
+		});
+		if (filter !== undefined) {
+			applyToolsFilter(filter);
+		}
+	});
 
-			if (parametersStr === undefined) {
+	const clearToolsFilterCommand = vscode.commands.registerCommand('tazapay-mcp.tools.clearFilter', () => {
+		applyToolsFilter('');
+	});
+
+	/**
+	 * Filter the tools tree and reflect the filter in the view message and title actions
+	 */
+	function applyToolsFilter(filter: string): void {
+		mcpTreeProvider.setFilter(filter);
+		const active = mcpTreeProvider.getFilter();
+		toolsTreeView.message = active ? `Showing tools matching "${active}"` : undefined;
+		vscode.commands.executeCommand('setContext', 'tazapay-mcp.toolsFiltered', active !== '');
+	}
+
+	// Tools view context menu: generate code, view schema, copy name, favorites
+	const generateCodeForToolCommand = vscode.commands.registerCommand('tazapay-mcp.tools.generateCode', async (item: MCPTreeItem) => {
+		await vscode.commands.executeCommand('tazapay-mcp.generateCode', item.tool);
+	});
+
+	// Tool documentation: from the tools tree, or pick a tool from the Command Palette
+	const viewToolDetailsCommand = vscode.commands.registerCommand('tazapay-mcp.tools.viewDetails', async (target?: MCPTool | MCPTreeItem) => {
+		let tool = target instanceof MCPTreeItem ? target.tool : target;
+		if (!tool) {
+			if (!session.client) {
+				vscode.window.showWarningMessage('Please authenticate first');
 				return;
 			}
+			const tools = session.client.getAvailableTools();
+			const picked = await vscode.window.showQuickPick(
+				tools.map(t => ({ label: t.name, description: t.title, detail: t.description, tool: t })),
+				{ placeHolder: 'Select a tool to view', matchOnDescription: true, matchOnDetail: true }
+			);
+			tool = picked?.tool;
+		}
+		if (tool) {
+			ToolDetailsPanel.show(tool, environments.getActive().serverUrl);
+		}
+	});
 
-			let parameters = {};
-			try {
-				parameters = JSON.parse(parametersStr);
-			} catch (parseError) {
-				vscode.window.showErrorMessage('Invalid JSON format for parameters');
+	const viewToolSchemaCommand = vscode.commands.registerCommand('tazapay-mcp.tools.viewSchema', async (item: MCPTreeItem) => {
+		const doc = await vscode.workspace.openTextDocument({
+			content: JSON.stringify({
+				name: item.tool.name,
+				description: item.tool.description,
+				inputSchema: item.tool.parameters,
+				outputSchema: item.tool.outputSchema
+			}, null, 2),
+			language: 'json'
+		});
+		await vscode.window.showTextDocument(doc, { preview: true });
+	});
+
+	const copyToolNameCommand = vscode.commands.registerCommand('tazapay-mcp.tools.copyName', async (item: MCPTreeItem) => {
+		await vscode.env.clipboard.writeText(item.tool.name);
+		vscode.window.setStatusBarMessage(`Copied ${item.tool.name}`, 3000);
+	});
+
+	const addFavoriteToolCommand = vscode.commands.registerCommand('tazapay-mcp.tools.addFavorite', async (item: MCPTreeItem) => {
+		await mcpTreeProvider.setFavorite(item.tool.name, true);
+	});
+
+	const removeFavoriteToolCommand = vscode.commands.registerCommand('tazapay-mcp.tools.removeFavorite', async (item: MCPTreeItem) => {
+		await mcpTreeProvider.setFavorite(item.tool.name, false);
+	});
+
+	// History: open the full recorded response
+	const openHistoryResponseCommand = vscode.commands.registerCommand('tazapay-mcp.history.openResponse', async (item: HistoryTreeItem) => {
+		const doc = await vscode.workspace.openTextDocument(executionHistory.getResponseUri(item.record));
+		await vscode.window.showTextDocument(doc, { preview: true });
+	});
+
+	// History: run the same call again in the active environment
+	const rerunHistoryCommand = vscode.commands.registerCommand('tazapay-mcp.history.rerun', async (item: HistoryTreeItem) => {
+		const tool = findToolForRecord(item);
+		if (!tool) {
+			return;
+		}
+		if (item.record.parameters === undefined) {
+			vscode.window.showWarningMessage(`This run's parameters were not recorded: ${item.record.omitted ?? 'no parameters in history'}. Use "Edit and Re-run" to enter them.`);
+			return;
+		}
+		try {
+			await runTool(tool, item.record.parameters);
+		} catch (error) {
+			showToolError(tool, error);
+		}
+	});
+
+	// History: edit the recorded parameters in the form, then run
+	const editAndRerunHistoryCommand = vscode.commands.registerCommand('tazapay-mcp.history.editAndRerun', async (item: HistoryTreeItem) => {
+		const tool = findToolForRecord(item);
+		if (!tool) {
+			return;
+		}
+		try {
+			const parameters = await ToolParameterForm.show(context, tool, values => validateParameters(tool.parameters, values), item.record.parameters);
+			if (parameters !== undefined) {
+				await runTool(tool, parameters);
+			}
+		} catch (error) {
+			showToolError(tool, error);
+		}
+	});
+
+	// History: diff two executions (the two selected items, or the clicked one against a picked one)
+	const compareHistoryCommand = vscode.commands.registerCommand('tazapay-mcp.history.compare', async (item: HistoryTreeItem, selected?: HistoryTreeItem[]) => {
+		let left = item.record;
+		let right: ExecutionRecord | undefined;
+
+		if (selected && selected.length === 2) {
+			left = selected[0].record;
+			right = selected[1].record;
+		}
+
+		if (!right) {
+			const picked = await vscode.window.showQuickPick(
+				executionHistory.getAll()
+					.filter(record => record.id !== item.record.id)
+					.map(record => ({
+						label: record.tool,
+						description: `${record.environment} · ${new Date(record.timestamp).toLocaleString()}`,
+						detail: record.status,
+						record
+					})),
+				{ placeHolder: `Compare ${item.record.tool} with...` }
+			);
+			if (!picked) {
 				return;
 			}
+			right = picked.record;
+		}
 
-			const result = await mcpClient.executeTool(tool.name, parameters);
-			
-			// Show result in a new document
-			const doc = await vscode.workspace.openTextDocument({
-				content: `Tool: ${tool.name}\nParameters: ${JSON.stringify(parameters, null, 2)}\n\nResult:\n${JSON.stringify(result, null, 2)}`,
-				language: 'json'
-			});
-			
-			await vscode.window.showTextDocument(doc);
+		await vscode.commands.executeCommand(
+			'vscode.diff',
+			executionHistory.getResponseUri(left),
+			executionHistory.getResponseUri(right),
+			`${left.tool} (${new Date(left.timestamp).toLocaleTimeString()}) ↔ ${right.tool} (${new Date(right.timestamp).toLocaleTimeString()})`
+		);
+	});
+
+	// History: delete one execution or clear everything
+	const deleteHistoryCommand = vscode.commands.registerCommand('tazapay-mcp.history.delete', async (item: HistoryTreeItem) => {
+		await executionHistory.remove(item.record.id);
+	});
+
+	const clearHistoryCommand = vscode.commands.registerCommand('tazapay-mcp.history.clear', async () => {
+		const confirmation = await vscode.window.showWarningMessage(
+			'Clear the TazaPay execution history?',
+			{ modal: true },
+			'Clear'
+		);
+		if (confirmation === 'Clear') {
+			await executionHistory.clear();
+		}
+	});
+
+	// Webhooks: start / stop the local listener
+	const startWebhookListenerCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.startListener', async () => {
+		const port = vscode.workspace.getConfiguration('tazapay-mcp').get<number>('webhooks.port', 4343);
+		if (webhookReceiver.isRunning()) {
+			vscode.window.showInformationMessage(`The webhook listener is already running on ${webhookReceiver.url}`);
+			return;
+		}
+
+		try {
+			await webhookReceiver.start(port);
 		} catch (error) {
-			vscode.window.showErrorMessage(`Failed to execute tool: ${error}`);
+			vscode.window.showErrorMessage(`Failed to start the webhook listener: ${describeError(error)}`);
+			return;
 		}
+
+		const url = webhookReceiver.url ?? `http://127.0.0.1:${port}`;
+		const actions = (await webhookSecretStore.get()) ? ['Copy URL'] : ['Copy URL', 'Set Webhook Secret'];
+		const action = await vscode.window.showInformationMessage(
+			`Listening for TazaPay webhooks on ${url}. Point a tunnel (e.g. ngrok) at this port and register its URL in the TazaPay dashboard.`,
+			...actions
+		);
+		if (action === 'Copy URL') {
+			await vscode.env.clipboard.writeText(url);
+		} else if (action === 'Set Webhook Secret') {
+			await vscode.commands.executeCommand('tazapay-mcp.webhooks.setSecret');
+		}
+	});
+
+	const stopWebhookListenerCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.stopListener', async () => {
+		await webhookReceiver.stop();
+		vscode.window.showInformationMessage('Stopped the TazaPay webhook listener');
+	});
+
+	// Webhooks: save the secret deliveries are verified with
+	const setWebhookSecretCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.setSecret', async () => {
+		const input = await vscode.window.showInputBox({
+			prompt: 'Enter your TazaPay webhook secret (leave empty to remove it)',
+			password: true,
+			ignoreFocusOut: true
+		});
+		if (input === undefined) {
+			return;
+		}
+
+		if (input) {
+			await webhookSecretStore.store(input);
+		} else {
+			await webhookSecretStore.delete();
+		}
+		await webhookReceiver.reverify();
+		vscode.window.showInformationMessage(input ? 'Webhook secret saved' : 'Webhook secret removed');
+	});
+
+	// Webhooks: open a captured delivery
+	const openWebhookCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.open', async (item: WebhookDeliveryItem) => {
+		const doc = await vscode.workspace.openTextDocument(webhookReceiver.getDeliveryUri(item.delivery));
+		await vscode.window.showTextDocument(doc, { preview: true });
+	});
+
+	// Webhooks: replay a delivery against the developer's own handler
+	const forwardWebhookCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.forward', async (item: WebhookDeliveryItem) => {
+		const url = vscode.workspace.getConfiguration('tazapay-mcp').get<string>('webhooks.localHandlerUrl', '');
+		if (!url) {
+			const action = await vscode.window.showWarningMessage('Set tazapay-mcp.webhooks.localHandlerUrl to the URL of your webhook handler first.', 'Open Settings');
+			if (action === 'Open Settings') {
+				await vscode.commands.executeCommand('workbench.action.openSettings', 'tazapay-mcp.webhooks.localHandlerUrl');
+			}
+			return;
+		}
+
+		let result: ForwardResult;
+		try {
+			result = await withCancellableProgress(`Forwarding ${item.delivery.event ?? 'webhook'} to ${url}...`, signal =>
+				webhookReceiver.forward(item.delivery, url, signal));
+		} catch (error) {
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(`Failed to forward the delivery: ${describeError(error)}`);
+			}
+			return;
+		}
+
+		const succeeded = result.status !== undefined && result.status < 300;
+		const message = result.status !== undefined
+			? `${url} answered ${result.status} in ${result.durationMs} ms`
+			: `Could not forward to ${url}: ${result.error}`;
+		const action = await (succeeded ? vscode.window.showInformationMessage : vscode.window.showWarningMessage)(message, 'Open Delivery');
+		if (action === 'Open Delivery') {
+			await vscode.commands.executeCommand('tazapay-mcp.webhooks.open', item);
+		}
+	});
+
+	// Webhooks: send a signed sample event to the developer's handler
+	const triggerWebhookEventCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.trigger', async () => {
+		const { events, errors } = await loadEventCatalog();
+		if (errors.length > 0) {
+			vscode.window.showWarningMessage(`Ignored invalid webhook event catalog: ${errors.join('; ')}`);
+		}
+
+		// Events grouped by category
+		const items: (vscode.QuickPickItem & { event?: WebhookEventTemplate })[] = [];
+		for (const event of events) {
+			if (items.length === 0 || items[items.length - 1].event?.category !== event.category) {
+				items.push({ label: event.category, kind: vscode.QuickPickItemKind.Separator });
+			}
+			items.push({ label: event.type, description: event.description, detail: event.source ? `From ${event.source}` : undefined, event });
+		}
+		const picked = await vscode.window.showQuickPick(items, {
+			placeHolder: 'Select the webhook event to send',
+			matchOnDescription: true
+		});
+		if (!picked?.event) {
+			return;
+		}
+
+		const url = vscode.workspace.getConfiguration('tazapay-mcp').get<string>('webhooks.localHandlerUrl', '');
+		if (!url) {
+			const action = await vscode.window.showWarningMessage('Set tazapay-mcp.webhooks.localHandlerUrl to the URL of your webhook handler first.', 'Open Settings');
+			if (action === 'Open Settings') {
+				await vscode.commands.executeCommand('workbench.action.openSettings', 'tazapay-mcp.webhooks.localHandlerUrl');
+			}
+			return;
+		}
+
+		let secret = await webhookSecretStore.get();
+		if (!secret) {
+			const action = await vscode.window.showWarningMessage(
+				'No webhook secret is configured, so the event can\'t be signed.',
+				'Set Webhook Secret',
+				'Send Unsigned'
+			);
+			if (action === 'Set Webhook Secret') {
+				await vscode.commands.executeCommand('tazapay-mcp.webhooks.setSecret');
+				secret = await webhookSecretStore.get();
+			}
+			if (!secret && action !== 'Send Unsigned') {
+				return;
+			}
+		}
+
+		const event = picked.event;
+		const body = buildEventPayload(event);
+		let result: ForwardResult;
+		try {
+			result = await withCancellableProgress(`Sending ${event.type} to ${url}...`, signal =>
+				sendWebhookEvent(body, url, secret, signal));
+		} catch (error) {
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(`Failed to send ${event.type}: ${describeError(error)}`);
+			}
+			return;
+		}
+
+		// Show the handler's answer next to what was sent
+		const outcome = result.status !== undefined ? `${result.status} (${result.durationMs} ms)` : `no response (${result.error})`;
+		const doc = await vscode.workspace.openTextDocument({
+			content: `Event: ${event.type}\nURL: ${url}\nSignature: ${secret ? `HMAC-SHA256 in ${getSignatureHeader()} (extension convention, not TazaPay's documented scheme)` : 'unsigned'}\nStatus: ${outcome}\n\nPayload:\n${body}\n\nResponse:\n${result.body ?? ''}`,
+			language: 'json'
+		});
+		await vscode.window.showTextDocument(doc);
+	});
+
+	// Webhooks: delete one delivery or clear everything
+	const deleteWebhookCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.delete', (item: WebhookDeliveryItem) => {
+		webhookReceiver.remove(item.delivery.id);
+	});
+
+	const clearWebhooksCommand = vscode.commands.registerCommand('tazapay-mcp.webhooks.clear', () => {
+		webhookReceiver.clear();
+	});
+
+	// Clear cached documentation answers
+	const clearAnswerCacheCommand = vscode.commands.registerCommand('tazapay-mcp.clearAnswerCache', async () => {
+		const count = await answerCache.clear();
+		vscode.window.showInformationMessage(`Cleared ${count} cached TazaPay answer${count === 1 ? '' : 's'}`);
 	});
 
 	// Ask documentation question command
+	// Without a session the question is answered from the offline documentation snapshot only
 	const askQuestionCommand = vscode.commands.registerCommand('tazapay-mcp.askQuestion', async () => {
-		if (!mcpClient || !mcpClient.isConnected()) {
+		const client = session.client;
+		if (!client && !docsIndex.available) {
 			vscode.window.showWarningMessage('Please authenticate first');
 			return;
 		}
@@ -427,115 +805,261 @@ I can help with TazaPay's payment and escrow services. Try asking about:
 			return;
 		}
 
-		try {
-			const answer = await mcpClient.askDocumentationQuestion(question);
-			
-			const doc = await vscode.workspace.openTextDocument({
-				content: `Question: ${question}\n\nAnswer:\n${answer}`,
-				language: 'markdown'
-			});
-			
-			await vscode.window.showTextDocument(doc);
-		} catch (error) {
-			vscode.window.showErrorMessage(`Failed to get answer: ${error}`);
+		let answer: RAGAnswer;
+		if (!client) {
+			const offline = docsIndex.answer(question);
+			if (!offline) {
+				vscode.window.showWarningMessage('The offline documentation has no match for this question. Authenticate to ask the TazaPay documentation service');
+				return;
+			}
+			answer = offline;
+		} else {
+			try {
+				answer = await withCancellableProgress('Asking the TazaPay documentation...', signal =>
+					client.askDocumentationQuestion(question, signal));
+			} catch (error) {
+				if (error instanceof CancelledError) {
+					return;
+				}
+				// Fall back to the offline documentation snapshot
+				const offline = docsIndex.answer(question);
+				if (!offline) {
+					vscode.window.showErrorMessage(`Failed to get answer: ${describeError(error)}`);
+					return;
+				}
+				answer = offline;
+			}
 		}
+
+		const sources = formatSourcesMarkdown(answer.sources);
+		const cachedNote = answer.cached ? '\n*Cached answer - run "TazaPay: Clear Answer Cache" to fetch a fresh one.*\n' : '';
+		const doc = await vscode.workspace.openTextDocument({
+			content: `Question: ${question}\n\nAnswer:\n${answer.answer}\n${sources ? `\n${sources}` : ''}${cachedNote}`,
+			language: 'markdown'
+		});
+		await vscode.window.showTextDocument(doc);
 	});
 
 	// Generate integration code command
-	const generateCodeCommand = vscode.commands.registerCommand('tazapay-mcp.generateCode', async () => {
-		if (!mcpClient || !mcpClient.isConnected()) {
+	// Asks for the tool unless one is passed (tools tree context menu)
+	const generateCodeCommand = vscode.commands.registerCommand('tazapay-mcp.generateCode', async (preselected?: MCPTool) => {
+		if (!session.client) {
 			vscode.window.showWarningMessage('Please authenticate first');
 			return;
 		}
 
-		const tools = mcpClient.getAvailableTools();
+		const unsupported = unsupportedTransportMessage(session.client.getTransport());
+		if (unsupported) {
+			vscode.window.showWarningMessage(unsupported);
+			return;
+		}
+
+		const tools = session.client.getAvailableTools();
 		if (tools.length === 0) {
 			vscode.window.showWarningMessage('No tools available');
 			return;
 		}
 
-		const toolNames = tools.map(tool => tool.name);
-		const selectedTool = await vscode.window.showQuickPick(toolNames, {
-			placeHolder: 'Select a tool to generate integration code for'
+		let tool = preselected;
+		if (!tool) {
+			const toolNames = tools.map(t => t.name);
+			const selectedTool = await vscode.window.showQuickPick(toolNames, {
+				placeHolder: 'Select a tool to generate integration code for'
+			});
+
+			if (!selectedTool) {
+				return;
+			}
+
+			tool = tools.find(t => t.name === selectedTool);
+			if (!tool) {
+				return;
+			}
+		}
+
+		// Offer the active editor's language first
+		const editorLanguage = languageForEditor(vscode.window.activeTextEditor?.document.languageId);
+		const languageItems = CODE_LANGUAGES
+			.map(language => ({
+				label: language.label,
+				description: language.id === editorLanguage ? 'Active editor language' : undefined,
+				language
+			}))
+			.sort((a, b) => Number(b.language.id === editorLanguage) - Number(a.language.id === editorLanguage));
+		const selectedLanguage = await vscode.window.showQuickPick(languageItems, {
+			placeHolder: `Select a language for ${tool.name}`
 		});
 
-		if (!selectedTool) {
+		if (!selectedLanguage) {
 			return;
 		}
 
-		const tool = tools.find(t => t.name === selectedTool);
-		if (!tool) {
-			return;
+		const language = selectedLanguage.language.id;
+		const serverUrl = environments.getActive().serverUrl;
+
+		// Code in the active editor's language can go straight into that file
+		const editor = vscode.window.activeTextEditor;
+		if (editor && language === editorLanguage && isInsertableLanguage(language)) {
+			const destination = await vscode.window.showQuickPick(['Insert at Cursor', 'Open in New Editor'], {
+				placeHolder: `Where should the ${tool.name} code go?`
+			});
+			if (!destination) {
+				return;
+			}
+			if (destination === 'Insert at Cursor') {
+				await vscode.workspace.applyEdit(buildInsertionEdit(editor.document, editor.selection.active, tool, language, serverUrl));
+				return;
+			}
 		}
 
-		const codeTemplate = generateIntegrationCode(tool);
+		const codeTemplate = generateIntegrationCode(tool, language, serverUrl);
 		
 		const doc = await vscode.workspace.openTextDocument({
 			content: codeTemplate,
-			language: 'javascript'
+			language: selectedLanguage.language.documentLanguage
 		});
 		
 		await vscode.window.showTextDocument(doc);
 	});
 
+	// Generate typed TypeScript client command
+	const generateClientCommand = vscode.commands.registerCommand('tazapay-mcp.generateClient', async () => {
+		const client = session.client;
+		if (!client) {
+			vscode.window.showWarningMessage('Please authenticate first');
+			return;
+		}
+
+		const unsupported = unsupportedTransportMessage(client.getTransport());
+		if (unsupported) {
+			vscode.window.showWarningMessage(unsupported);
+			return;
+		}
+
+		const folders = vscode.workspace.workspaceFolders || [];
+		const folder = folders.length > 1 ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder to write the client into' }) : folders[0];
+		if (!folder) {
+			if (folders.length === 0) {
+				vscode.window.showWarningMessage('Open a workspace folder to generate the TypeScript client into');
+			}
+			return;
+		}
+
+		const config = vscode.workspace.getConfiguration('tazapay-mcp', folder.uri);
+		const outputPath = config.get<string>('clientGenerator.outputPath', 'src/tazapay/tazapayClient.ts');
+		const className = config.get<string>('clientGenerator.className', 'TazaPayClient');
+		const typePrefix = config.get<string>('clientGenerator.typePrefix', '');
+		if (!isValidIdentifier(className) || !isValidIdentifier(typePrefix, true)) {
+			vscode.window.showErrorMessage('tazapay-mcp.clientGenerator.className and typePrefix must be valid TypeScript identifiers');
+			return;
+		}
+		// The client is only ever written inside the workspace folder
+		const outputSegments = resolveOutputPath(outputPath);
+		if (!outputSegments) {
+			vscode.window.showErrorMessage(`tazapay-mcp.clientGenerator.outputPath must be a file path relative to the workspace folder, inside it (got "${outputPath}")`);
+			return;
+		}
+
+		let tools: MCPTool[];
+		try {
+			tools = await withCancellableProgress('Fetching TazaPay tools...', signal => client.getTools(signal));
+		} catch (error) {
+			if (!(error instanceof CancelledError)) {
+				vscode.window.showErrorMessage(`Failed to fetch tools: ${describeError(error)}`);
+			}
+			return;
+		}
+
+		const uri = vscode.Uri.joinPath(folder.uri, ...outputSegments);
+		const content = generateTypeScriptClient(tools, { className, typePrefix });
+
+		// Only overwrite files this command wrote, unless the user agrees
+		let existing: string | undefined;
+		try {
+			existing = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			existing = undefined;
+		}
+		if (existing !== undefined && !existing.startsWith(GENERATED_CLIENT_MARKER)) {
+			const answer = await vscode.window.showWarningMessage(
+				`${vscode.workspace.asRelativePath(uri)} was not generated by TazaPay. Overwrite it?`,
+				{ modal: true },
+				'Overwrite'
+			);
+			if (answer !== 'Overwrite') {
+				return;
+			}
+		}
+
+		const relativePath = vscode.workspace.asRelativePath(uri);
+		if (existing === content) {
+			vscode.window.showInformationMessage(`${relativePath} is already up to date (${tools.length} tools)`);
+			return;
+		}
+
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+
+		const action = await vscode.window.showInformationMessage(
+			`${existing === undefined ? 'Generated' : 'Regenerated'} ${relativePath} with ${tools.length} tools`,
+			'Open'
+		);
+		if (action === 'Open') {
+			await vscode.window.showTextDocument(uri);
+		}
+	});
+
 	context.subscriptions.push(
 		showWelcomeCommand,
 		openCopilotChatCommand,
 		authenticateCommand,
+		checkConnectionCommand,
+		switchEnvironmentCommand,
 		listToolsCommand,
 		executeToolCommand,
+		refreshToolsCommand,
+		filterToolsCommand,
+		clearToolsFilterCommand,
+		generateCodeForToolCommand,
+		viewToolDetailsCommand,
+		viewToolSchemaCommand,
+		copyToolNameCommand,
+		addFavoriteToolCommand,
+		removeFavoriteToolCommand,
+		openHistoryResponseCommand,
+		rerunHistoryCommand,
+		editAndRerunHistoryCommand,
+		compareHistoryCommand,
+		deleteHistoryCommand,
+		clearHistoryCommand,
+		startWebhookListenerCommand,
+		stopWebhookListenerCommand,
+		setWebhookSecretCommand,
+		openWebhookCommand,
+		forwardWebhookCommand,
+		triggerWebhookEventCommand,
+		deleteWebhookCommand,
+		clearWebhooksCommand,
+		clearAnswerCacheCommand,
 		askQuestionCommand,
-		generateCodeCommand
+		generateCodeCommand,
+		generateClientCommand
 	);
 }
 
-function generateIntegrationCode(tool: MCPTool): string {
-	return `// Integration code for ${tool.name}
-// ${tool.description}
-
-const axios = require('axios');
-
-class MCPIntegration {
-    constructor(serverUrl, secretKey) {
-        this.serverUrl = serverUrl;
-        this.secretKey = secretKey;
-    }
-
-    async ${tool.name}(parameters) {
-        try {
-            const response = await axios.post(
-                \`\${this.serverUrl}${tool.endpoint}\`,
-                parameters,
-                {
-                    headers: {
-                        'Authorization': \`Bearer \${this.secretKey}\`,
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
-            return response.data;
-        } catch (error) {
-            console.error('Error calling ${tool.name}:', error);
-            throw error;
-        }
-    }
-}
-
-// Usage example:
-const mcp = new MCPIntegration('YOUR_SERVER_URL', 'YOUR_SECRET_KEY');
-
-// Call the tool
-mcp.${tool.name}({
-    // Add your parameters here based on the tool's requirements
-    // Parameters: ${JSON.stringify(tool.parameters, null, 4)}
-}).then(result => {
-    console.log('Result:', result);
-}).catch(error => {
-    console.error('Error:', error);
-});
-`;
+/**
+ * Run a long operation under a progress notification with a Cancel button
+ * @param title - Progress message
+ * @param task - Operation; receives a signal that aborts when the user cancels
+ * @returns The task's result (rejects with CancelledError when cancelled)
+ */
+function withCancellableProgress<T>(title: string, task: (signal: AbortSignal) => Promise<T>): Thenable<T> {
+	return vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title, cancellable: true },
+		(_progress, token) => task(toAbortSignal(token))
+	);
 }
 
 export function deactivate() {
-	mcpClient = null;
+	// The session closes its MCP client when context.subscriptions are disposed
 }
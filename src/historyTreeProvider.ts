@@ -0,0 +1,88 @@
+/**
+ * Execution History Tree Provider
+ *
+ * This module provides the "History" tree view listing recorded tool executions,
+ * newest first, with their environment, status and duration.
+ *
+ * Features:
+ * - Pass/fail icon, environment and relative time for each execution
+ * - Click to open the full response
+ * - Context menu actions for re-run, edit & re-run, compare and delete
+ */
+
+import * as vscode from 'vscode';
+import { ExecutionHistory, ExecutionRecord } from './executionHistory';
+
+/**
+ * Tree item representing one recorded execution
+ */
+export class HistoryTreeItem extends vscode.TreeItem {
+  /**
+   * @param record - Recorded execution shown by this item
+   */
+  constructor(public readonly record: ExecutionRecord) {
+    super(record.tool, vscode.TreeItemCollapsibleState.None);
+
+    const time = new Date(record.timestamp);
+    this.description = `${record.environment} · ${time.toLocaleString()} · ${record.durationMs} ms`;
+    this.iconPath = record.status === 'success'
+      ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+      : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    this.contextValue = 'execution';
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${record.tool}** — ${record.status}\n\n`);
+    tooltip.appendMarkdown(`${record.environment} (${record.environmentUrl})\n\n`);
+    if (record.error) {
+      tooltip.appendMarkdown(`Error: ${record.error}\n\n`);
+    }
+    if (record.omitted) {
+      tooltip.appendMarkdown(`_${record.omitted}_\n\n`);
+    }
+    if (record.parameters !== undefined) {
+      tooltip.appendCodeblock(JSON.stringify(record.parameters, null, 2), 'json');
+    }
+    this.tooltip = tooltip;
+
+    // Clicking an execution opens its full response
+    this.command = {
+      command: 'tazapay-mcp.history.openResponse',
+      title: 'Open Response',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Tree data provider for the execution history view
+ */
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryTreeItem>, vscode.Disposable {
+  // Event emitter for notifying VS Code when tree data changes
+  private _onDidChangeTreeData = new vscode.EventEmitter<HistoryTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<HistoryTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private subscription: vscode.Disposable;
+
+  /**
+   * @param history - Execution history store to display
+   */
+  constructor(private readonly history: ExecutionHistory) {
+    this.subscription = history.onDidChangeHistory(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryTreeItem): Thenable<HistoryTreeItem[]> {
+    if (element) {
+      return Promise.resolve([]);
+    }
+    return Promise.resolve(this.history.getAll().map(record => new HistoryTreeItem(record)));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Shared HTTP Client
+ *
+ * Every request the extension sends to TazaPay services goes through this module, so
+ * timeouts, retries and error reporting behave the same for MCP, RAG and documentation calls.
+ *
+ * Features:
+ * - Per-operation timeouts
+ * - Retries for idempotent requests with jittered exponential backoff
+ * - `Retry-After` honored on 429 and 503 responses
+ * - Failures mapped to the typed errors in `errors.ts`
+ * - Cancellation through AbortSignals (see `toAbortSignal` for VS Code cancellation tokens)
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import * as vscode from 'vscode';
+import {
+  ApiValidationError,
+  AuthenticationError,
+  CancelledError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TazaPayApiError
+} from './errors';
+
+/**
+ * Timeouts (ms) for each kind of operation
+ */
+export const TIMEOUTS = {
+  auth: 15000,         // Authentication / session setup
+  listTools: 30000,    // Tool discovery
+  executeTool: 60000,  // Tool execution (may create payments, payouts...)
+  ragQuery: 30000,     // Documentation questions
+  download: 30000,     // Snapshot downloads
+  webhook: 15000       // Deliveries to the developer's local webhook handler
+};
+
+// Backoff parameters
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Longest Retry-After the client waits for before giving up and reporting the error
+const MAX_RETRY_AFTER_MS = 60000;
+
+// Statuses worth retrying for idempotent requests
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Options for a single HTTP request
+ */
+export interface HttpRequestOptions {
+  method: 'GET' | 'POST' | 'DELETE';
+  url: string;
+  data?: any;                                // Request body
+  headers?: Record<string, string>;
+  timeoutMs?: number;                        // See TIMEOUTS (0 disables the timeout)
+  idempotent?: boolean;                      // Safe to repeat (defaults to true for GET and DELETE)
+  responseType?: 'json' | 'text' | 'stream';
+  signal?: AbortSignal;                      // Aborts the request and any pending retry
+  acceptAnyStatus?: boolean;                 // Resolve with error responses instead of throwing (e.g. to show a local handler's reply)
+}
+
+/**
+ * HTTP client with retries, backoff and typed errors
+ */
+export class HttpClient {
+  /**
+   * Send a request, retrying transient failures
+   * Non-idempotent requests are only retried when the server certainly didn't process them
+   * (429 responses and refused connections)
+   * @param options - Request options
+   * @returns Promise<AxiosResponse> - The successful response
+   * @throws TazaPayApiError subclass describing the failure, or CancelledError if the signal aborted
+   */
+  async request<T = any>(options: HttpRequestOptions): Promise<AxiosResponse<T>> {
+    const idempotent = options.idempotent ?? options.method !== 'POST';
+    const maxRetries = Math.max(0, vscode.workspace.getConfiguration('tazapay-mcp').get<number>('http.maxRetries', 3));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await axios.request<T>({
+          method: options.method,
+          url: options.url,
+          data: options.data,
+          headers: {
+            'User-Agent': 'TazaPay-VSCode-Extension/1.0.0',
+            ...options.headers
+          },
+          timeout: options.timeoutMs ?? 0,
+          responseType: options.responseType,
+          signal: options.signal,
+          // Only override when asked: an explicit undefined would make axios accept every status
+          ...(options.acceptAnyStatus ? { validateStatus: () => true } : {})
+        });
+      } catch (error) {
+        if (options.signal?.aborted || axios.isCancel(error)) {
+          throw new CancelledError();
+        }
+
+        const mapped = toApiError(error);
+        const delay = attempt < maxRetries ? retryDelay(mapped, error, idempotent, attempt) : undefined;
+        if (delay === undefined) {
+          throw mapped;
+        }
+
+        console.log(`Retrying ${options.method} ${options.url} in ${delay} ms (${mapped.message})`);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Send a GET request
+   */
+  get<T = any>(url: string, options: Omit<HttpRequestOptions, 'method' | 'url'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'GET', url });
+  }
+
+  /**
+   * Send a POST request
+   */
+  post<T = any>(url: string, data: any, options: Omit<HttpRequestOptions, 'method' | 'url' | 'data'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'POST', url, data });
+  }
+
+  /**
+   * Send a DELETE request
+   */
+  delete<T = any>(url: string, options: Omit<HttpRequestOptions, 'method' | 'url'> = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...options, method: 'DELETE', url });
+  }
+}
+
+// Client shared by MCPClient, the MCP transports, TazaPayRAGClient and DocsIndex
+export const httpClient = new HttpClient();
+
+/**
+ * Create an AbortSignal that aborts when a VS Code cancellation token is cancelled
+ * @param token - Token from withProgress, a chat request or a language model tool invocation
+ * @returns AbortSignal - Signal to pass to client calls
+ */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+  const controller = new AbortController();
+  if (token.isCancellationRequested) {
+    controller.abort();
+  } else {
+    token.onCancellationRequested(() => controller.abort());
+  }
+  return controller.signal;
+}
+
+/**
+ * Map an axios failure to a typed error
+ * @param error - Error thrown by axios
+ * @returns TazaPayApiError - Typed error
+ */
+export function toApiError(error: unknown): TazaPayApiError {
+  if (error instanceof TazaPayApiError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new NetworkError(error instanceof Error ? error.message : String(error));
+  }
+
+  const response = error.response;
+  if (!response) {
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+    return new NetworkError(timedOut ? 'Request timed out' : (error.code || error.message), timedOut);
+  }
+
+  const status = response.status;
+  const details = response.data;
+  const message = serverMessage(details) || error.message;
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, parseRetryAfter(response.headers['retry-after']), details);
+  }
+  if (status === 400 || status === 422) {
+    return new ApiValidationError(message, status, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, details);
+  }
+  return new TazaPayApiError(message, status, details);
+}
+
+/**
+ * Decide how long to wait before retrying a failed request
+ * @returns number | undefined - Delay in ms, or undefined if the request must not be retried
+ */
+function retryDelay(mapped: TazaPayApiError, error: unknown, idempotent: boolean, attempt: number): number | undefined {
+  const connectionRefused = axios.isAxiosError(error) && error.code === 'ECONNREFUSED';
+  const retryable = mapped instanceof RateLimitError || connectionRefused ||
+    (idempotent && (mapped instanceof NetworkError || (mapped.status !== undefined && RETRYABLE_STATUSES.has(mapped.status))));
+  if (!retryable) {
+    return undefined;
+  }
+
+  const retryAfter = mapped instanceof RateLimitError
+    ? mapped.retryAfterMs
+    : parseRetryAfter(axios.isAxiosError(error) ? error.response?.headers['retry-after'] : undefined);
+  if (retryAfter !== undefined) {
+    return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : undefined;
+  }
+
+  // Full jitter: a random delay up to the exponential backoff cap
+  return Math.round(Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ * @returns number | undefined - Delay in ms
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Extract the error message from a TazaPay error body
+ */
+function serverMessage(data: any): string | undefined {
+  if (typeof data === 'string') {
+    return data.trim() ? data.trim().substring(0, 200) : undefined;
+  }
+  if (data && typeof data === 'object') {
+    const message = data.message ?? data.error?.message ?? data.error;
+    return typeof message === 'string' ? message : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Language Model Tools for Copilot Agent Mode
+ *
+ * This module exposes the tools discovered by MCPClient to Copilot agent mode through
+ * `vscode.lm.registerTool`, so the model can call operations like "create payment link"
+ * or "get checkout status" directly from a chat.
+ *
+ * Limitation: this is not one language model tool per MCP tool. VS Code only routes calls to
+ * tool names declared statically in the package.json `languageModelTools` contribution, and
+ * discovered tools are only known at runtime, so they can't be registered with their own
+ * input schemas. They are surfaced through two declared, generic tools instead:
+ * - `tazapay_listTools` returns every discovered tool with its `parameters` schema
+ * - `tazapay_executeTool` invokes a discovered tool by name (free-form arguments) after user confirmation
+ * The model only sees a tool's schema after calling `tazapay_listTools`. Per-tool schemas are
+ * available to agent mode through the MCP server definition (see mcpServerProvider.ts).
+ *
+ * Registrations follow tool refreshes: they are created while tools are available
+ * and removed when the tool list is cleared.
+ */
+
+import * as vscode from 'vscode';
+import { EnvironmentManager } from './environments';
+import { ExecutionHistory } from './executionHistory';
+import { toAbortSignal } from './httpClient';
+import { MCPClient, MCPTool } from './mcpClient';
+import { classifyTool, guardToolExecution } from './toolSafety';
+
+/**
+ * Input accepted by `tazapay_listTools`
+ */
+interface ListToolsInput {
+  filter?: string;  // Optional case-insensitive substring matched against name and description
+}
+
+/**
+ * Input accepted by `tazapay_executeTool`
+ */
+interface ExecuteToolInput {
+  toolName: string;  // Name of a tool returned by tazapay_listTools
+  arguments?: any;   // Arguments matching the tool's input schema
+}
+
+/**
+ * Registers the discovered TazaPay tools with the VS Code language model tools API
+ */
+export class TazaPayLanguageModelTools implements vscode.Disposable {
+  private tools: MCPTool[] = [];              // Tools from the last refresh
+  private registrations: vscode.Disposable[] = []; // Active lm.registerTool registrations
+
+  /**
+   * @param getClient - Returns the currently connected MCP client (if any)
+   * @param environments - Environment profiles (tools run against the active one)
+   * @param history - Execution history every invocation is recorded in
+   */
+  constructor(
+    private readonly getClient: () => MCPClient | null,
+    private readonly environments: EnvironmentManager,
+    private readonly history: ExecutionHistory
+  ) {}
+
+  /**
+   * Update the set of tools exposed to agent mode
+   * Called whenever the tool list is refreshed from the server
+   * @param tools - Tools returned by MCPClient.getTools()
+   */
+  update(tools: MCPTool[]): void {
+    this.tools = tools;
+    this.unregister();
+
+    if (tools.length === 0) {
+      return;
+    }
+
+    this.registrations.push(
+      vscode.lm.registerTool<ListToolsInput>('tazapay_listTools', {
+        invoke: options => this.listTools(options.input)
+      }),
+      vscode.lm.registerTool<ExecuteToolInput>('tazapay_executeTool', {
+        prepareInvocation: options => this.prepareExecution(options.input),
+        invoke: (options, token) => this.executeTool(options.input, token)
+      })
+    );
+  }
+
+  dispose(): void {
+    this.unregister();
+  }
+
+  private unregister(): void {
+    this.registrations.forEach(registration => registration.dispose());
+    this.registrations = [];
+  }
+
+  private listTools(input: ListToolsInput): vscode.LanguageModelToolResult {
+    const filter = input.filter?.toLowerCase();
+    const tools = this.tools
+      .filter(tool => !filter || tool.name.toLowerCase().includes(filter) || tool.description.toLowerCase().includes(filter))
+      .map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.parameters
+      }));
+
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(JSON.stringify({ environment: this.environments.describe(), tools }, null, 2))
+    ]);
+  }
+
+  private prepareExecution(input: ExecuteToolInput): vscode.PreparedToolInvocation {
+    const environment = this.environments.describe();
+    const tool = this.tools.find(t => t.name === input.toolName);
+    const liveMutation = !!tool && this.environments.getActive().live && classifyTool(tool) === 'mutating';
+
+    const message = new vscode.MarkdownString();
+    if (liveMutation) {
+      message.appendMarkdown(`$(warning) **This tool changes data in a LIVE environment and may move real money.**\n\n`);
+      message.supportThemeIcons = true;
+    }
+    message.appendMarkdown(`Run **${input.toolName}** against the **${environment}** environment?\n\n`);
+    if (tool?.description) {
+      message.appendMarkdown(`${tool.description}\n\n`);
+    }
+    message.appendCodeblock(JSON.stringify(input.arguments || {}, null, 2), 'json');
+
+    return {
+      invocationMessage: `Running TazaPay tool ${input.toolName} (${environment})`,
+      confirmationMessages: {
+        title: `Run TazaPay tool "${input.toolName}" in ${environment}?`,
+        message
+      }
+    };
+  }
+
+  private async executeTool(input: ExecuteToolInput, token: vscode.CancellationToken): Promise<vscode.LanguageModelToolResult> {
+    const client = this.getClient();
+    if (!client || !client.isConnected()) {
+      throw new Error('TazaPay is not authenticated. Run "TazaPay MCP: Authenticate with Secret Key" first.');
+    }
+
+    const tool = this.tools.find(t => t.name === input.toolName);
+    if (!tool) {
+      throw new Error(`Unknown TazaPay tool "${input.toolName}". Call tazapay_listTools to see the available tools.`);
+    }
+
+    // The chat confirmation can be auto-approved, so live mutations still get the payload modal
+    const parameters = input.arguments || {};
+    const environment = this.environments.getActive();
+    if (!(await guardToolExecution(tool, parameters, environment))) {
+      throw new Error(`"${input.toolName}" was not run in the live ${environment.name} environment: it was blocked for this workspace or not confirmed.`);
+    }
+
+    const result = await this.history.track(input.toolName, parameters, environment,
+      () => client.executeTool(input.toolName, parameters, toAbortSignal(token)));
+
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(JSON.stringify({
+        tool: input.toolName,
+        environment: this.environments.describe(environment),
+        result
+      }, null, 2))
+    ]);
+  }
+}
@@ -10,10 +10,56 @@
  * - Tool execution with parameter validation
  * - RAG-powered documentation queries
  * - Error handling and connection management
+ * - Standard MCP (JSON-RPC 2.0) over Streamable HTTP, SSE or stdio, or the legacy REST routes
  */
 
 import * as vscode from 'vscode';
-import axios from 'axios';
+import {
+  MCP_PROTOCOL_VERSION,
+  MCPTransport,
+  SseTransport,
+  StdioTransport,
+  StreamableHttpTransport,
+  resolveMcpEndpoint
+} from './mcpTransport';
+import { AnswerCache } from './answerCache';
+import { AuthenticationError } from './errors';
+import { TIMEOUTS, httpClient } from './httpClient';
+import { RAGAnswer, parseSources } from './ragClient';
+import { ParameterValidationError, validateParameters } from './schemaValidator';
+import { classifyTool } from './toolSafety';
+
+/**
+ * How MCPClient talks to the server
+ * - rest: legacy TazaPay REST routes (/auth, /tools, tool endpoints)
+ * - streamableHttp / sse / stdio: standard MCP JSON-RPC over the given transport
+ */
+export type MCPTransportMode = 'rest' | 'streamableHttp' | 'sse' | 'stdio';
+
+// Output channel for the stderr of local (stdio) MCP servers, created on first use
+let serverLog: vscode.OutputChannel | undefined;
+
+/**
+ * Connection options for MCPClient
+ * When omitted they are read from the `tazapay-mcp` settings
+ */
+export interface MCPClientOptions {
+  transport: MCPTransportMode;  // Wire protocol to use
+  mcpPath: string;              // MCP endpoint path appended to the server URL (HTTP transports)
+  stdioCommand?: string;        // Executable for the stdio transport
+  stdioArgs?: string[];         // Arguments for the stdio transport
+}
+
+/**
+ * Behavioral hints attached to a tool by the server (MCP ToolAnnotations)
+ */
+export interface MCPToolAnnotations {
+  title?: string;            // Human-readable title
+  readOnlyHint?: boolean;    // Tool does not modify its environment
+  destructiveHint?: boolean; // Tool may perform destructive updates
+  idempotentHint?: boolean;  // Repeated calls with the same arguments have no additional effect
+  openWorldHint?: boolean;   // Tool interacts with external entities
+}
 
 /**
  * Interface representing an MCP tool available from the TazaPay service
@@ -22,18 +68,55 @@ import axios from 'axios';
 export interface MCPTool {
   name: string;        // Unique identifier for the tool (e.g., "create-payment")
   description: string; // Human-readable description of what the tool does
-  parameters: any;     // JSON schema defining required/optional parameters
-  endpoint: string;    // API endpoint path for executing this tool
+  parameters: any;     // JSON schema defining required/optional parameters (MCP inputSchema)
+  endpoint?: string;   // API endpoint path for executing this tool (REST mode only)
+  title?: string;      // Optional display title (MCP only)
+  outputSchema?: any;  // Optional JSON schema of structured results (MCP only)
+  annotations?: MCPToolAnnotations; // Optional behavioral hints (MCP only)
+  category?: string;   // Optional product area reported by the server (e.g. "payouts")
 }
 
+/**
+ * Content block returned by an MCP tool call
+ * Mirrors the protocol's text, image, audio, resource link and embedded resource content types
+ */
+export type MCPContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource_link'; uri: string; name: string; description?: string; mimeType?: string }
+  | { type: 'resource'; resource: { uri: string; mimeType?: string; text?: string; blob?: string } };
+
 /**
  * Standard response format for MCP API calls
  * Provides consistent error handling and data structure across all operations
  */
 export interface MCPResponse {
   success: boolean;    // Whether the operation completed successfully
-  data?: any;         // Response data if successful
+  data?: any;         // Response data if successful (structured content or parsed text in MCP mode)
   error?: string;     // Error message if operation failed
+  content?: MCPContent[]; // Raw MCP content blocks (MCP mode only)
+}
+
+/**
+ * Resource exposed by an MCP server (resources/list)
+ */
+export interface MCPResource {
+  uri: string;          // Unique resource URI
+  name: string;         // Programmatic name
+  title?: string;       // Display title
+  description?: string; // What the resource contains
+  mimeType?: string;    // MIME type of the resource contents
+}
+
+/**
+ * Prompt template exposed by an MCP server (prompts/list)
+ */
+export interface MCPPrompt {
+  name: string;         // Unique prompt name
+  title?: string;       // Display title
+  description?: string; // What the prompt does
+  arguments?: { name: string; description?: string; required?: boolean }[];
 }
 
 /**
@@ -45,60 +128,197 @@ export class MCPClient {
   private secretKey: string;           // Authentication secret key from TazaPay dashboard
   private isAuthenticated: boolean = false;  // Current authentication status
   private tools: MCPTool[] = [];       // Cached list of available tools from server
+  private options: MCPClientOptions;   // Transport selection and endpoint settings
+  private transport?: MCPTransport;    // Active JSON-RPC transport (MCP modes only)
+  private serverCapabilities: any = {}; // Capabilities announced by the server during initialize
 
   /**
    * Initialize MCP client with server URL and authentication credentials
    * @param serverUrl - Base URL for the TazaPay MCP API server
    * @param secretKey - Secret key for authentication (from TazaPay dashboard)
+   * @param options - Transport options (defaults to the `tazapay-mcp` settings)
+   * @param answerCache - Cache for documentation answers (optional)
    */
-  constructor(serverUrl: string, secretKey: string) {
+  constructor(serverUrl: string, secretKey: string, options?: MCPClientOptions, private readonly answerCache?: AnswerCache) {
     this.serverUrl = serverUrl;
     this.secretKey = secretKey;
+
+    const config = vscode.workspace.getConfiguration('tazapay-mcp');
+    this.options = options || {
+      transport: config.get<MCPTransportMode>('transport') || 'rest',
+      mcpPath: config.get<string>('mcpPath') || '/mcp',
+      stdioCommand: config.get<string>('stdio.command'),
+      stdioArgs: config.get<string[]>('stdio.args') || []
+    };
   }
 
   /**
    * Authenticate with the TazaPay MCP server using the provided secret key
-   * Sets authentication status and updates VS Code context for UI state management
-   * @returns Promise<boolean> - true if authentication successful, false otherwise
+   * In MCP modes this performs the initialize handshake over the configured transport
+   * Sets authentication status (the session publishes it to the UI)
+   * @param signal - Cancels the request (optional)
+   * @returns Promise<boolean> - true if authentication successful, false if the key was rejected
+   * @throws TazaPayApiError for failures other than a rejected key (network, server, rate limit...)
    */
-  async authenticate(): Promise<boolean> {
+  async authenticate(signal?: AbortSignal): Promise<boolean> {
+    if (this.isProtocolMode()) {
+      return this.initializeSession(signal);
+    }
+
     try {
       // Send authentication request to MCP server
-      const response = await axios.post(`${this.serverUrl}/auth`, {
+      const response = await httpClient.post(`${this.serverUrl}/auth`, {
         secretKey: this.secretKey
+      }, {
+        timeoutMs: TIMEOUTS.auth,
+        idempotent: true,
+        signal
       });
 
       if (response.data.success) {
         this.isAuthenticated = true;
-        // Update VS Code context to enable authenticated UI elements
-        vscode.commands.executeCommand('setContext', 'tazapay-mcp.authenticated', true);
         return true;
       }
       
       return false;
     } catch (error) {
       console.error('Authentication failed:', error);
-      return false;
+      // A rejected key is a normal "not authenticated" outcome; other failures are reported to the caller
+      if (error instanceof AuthenticationError) {
+        return false;
+      }
+      throw error;
     }
   }
 
+  /**
+   * Run the MCP initialize handshake and mark the client as connected
+   * @param signal - Cancels the handshake
+   * @returns Promise<boolean> - true if the server accepted the session
+   */
+  private async initializeSession(signal?: AbortSignal): Promise<boolean> {
+    try {
+      await this.transport?.close();
+      this.transport = this.createTransport();
+
+      const result = await this.transport.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: {
+          name: 'tazapay-vscode',
+          version: vscode.extensions.getExtension('tazapay.tazapay-mcp')?.packageJSON.version || '0.0.0'
+        }
+      }, signal);
+
+      this.transport.setProtocolVersion(result.protocolVersion || MCP_PROTOCOL_VERSION);
+      this.serverCapabilities = result.capabilities || {};
+      await this.transport.notify('notifications/initialized');
+
+      this.isAuthenticated = true;
+      return true;
+    } catch (error) {
+      console.error('MCP initialize failed:', error);
+      await this.transport?.close();
+      this.transport = undefined;
+      if (error instanceof AuthenticationError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build the transport selected in the client options
+   */
+  private createTransport(): MCPTransport {
+    const headers = { 'Authorization': `Bearer ${this.secretKey}` };
+
+    switch (this.options.transport) {
+      case 'sse':
+        return new SseTransport(resolveMcpEndpoint(this.serverUrl, this.options.mcpPath), headers);
+      case 'stdio':
+        // Never launch a process (holding the secret key) on behalf of a workspace the user hasn't trusted
+        if (!vscode.workspace.isTrusted) {
+          throw new Error('The stdio MCP transport is disabled in untrusted workspaces. Trust the workspace to start the local MCP server');
+        }
+        if (!this.options.stdioCommand) {
+          throw new Error('No command configured for the stdio MCP transport (tazapay-mcp.stdio.command)');
+        }
+        return new StdioTransport(this.options.stdioCommand, this.options.stdioArgs || [], {
+          TAZAPAY_SECRET_KEY: this.secretKey,
+          TAZAPAY_SERVER_URL: this.serverUrl
+        }, message => getServerLog().appendLine(message));
+      default:
+        return new StreamableHttpTransport(resolveMcpEndpoint(this.serverUrl, this.options.mcpPath), headers);
+    }
+  }
+
+  /**
+   * Whether the client speaks MCP JSON-RPC rather than the legacy REST routes
+   */
+  private isProtocolMode(): boolean {
+    return this.options.transport !== 'rest';
+  }
+
+  /**
+   * Follow `nextCursor` pagination of an MCP list method and collect every item
+   * @param method - List method (e.g. "tools/list")
+   * @param key - Result property holding the items (e.g. "tools")
+   * @param signal - Cancels the listing
+   */
+  private async listAll(method: string, key: string, signal?: AbortSignal): Promise<any[]> {
+    const items: any[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.transport!.request(method, cursor ? { cursor } : {}, signal);
+      items.push(...(result[key] || []));
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    return items;
+  }
+
   /**
    * Fetch available tools from the TazaPay MCP server
    * Tools represent available API operations like create-payment, list-transactions, etc.
+   * @param signal - Cancels the request (optional)
    * @returns Promise<MCPTool[]> - Array of available tools with their metadata
    * @throws Error if not authenticated or server request fails
    */
-  async getTools(): Promise<MCPTool[]> {
+  async getTools(signal?: AbortSignal): Promise<MCPTool[]> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated');
     }
 
+    if (this.isProtocolMode()) {
+      try {
+        const tools = await this.listAll('tools/list', 'tools', signal);
+        // Map MCP tool definitions onto the extension's tool model
+        this.tools = tools.map(tool => ({
+          name: tool.name,
+          title: tool.title || tool.annotations?.title,
+          description: tool.description || '',
+          parameters: tool.inputSchema || { type: 'object' },
+          outputSchema: tool.outputSchema,
+          annotations: tool.annotations,
+          category: typeof tool._meta?.category === 'string' ? tool._meta.category : undefined
+        }));
+        return this.tools;
+      } catch (error) {
+        console.error('Failed to fetch tools:', error);
+        throw error;
+      }
+    }
+
     try {
       // Request available tools from the server
-      const response = await axios.get(`${this.serverUrl}/tools`, {
+      const response = await httpClient.get(`${this.serverUrl}/tools`, {
         headers: {
           'Authorization': `Bearer ${this.secretKey}`
-        }
+        },
+        timeoutMs: TIMEOUTS.listTools,
+        signal
       });
 
       // Cache tools locally for faster access
@@ -115,10 +335,12 @@ export class MCPClient {
    * This is the main method for performing TazaPay API operations through the MCP interface
    * @param toolName - Name of the tool to execute (e.g., "create-payment")
    * @param parameters - Parameters required by the tool (validated against tool schema)
+   * @param signal - Cancels the request (optional); the MCP server is notified in protocol modes
    * @returns Promise<MCPResponse> - Response from the tool execution
+   * @throws ParameterValidationError if the parameters do not match the tool schema (nothing is sent)
    * @throws Error if not authenticated, tool not found, or execution fails
    */
-  async executeTool(toolName: string, parameters: any): Promise<MCPResponse> {
+  async executeTool(toolName: string, parameters: any, signal?: AbortSignal): Promise<MCPResponse> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated');
     }
@@ -129,13 +351,37 @@ export class MCPClient {
       throw new Error(`Tool ${toolName} not found`);
     }
 
+    // Reject invalid payloads locally instead of surfacing them as server errors
+    parameters = parameters ?? {};
+    const issues = validateParameters(tool.parameters, parameters);
+    if (issues.length > 0) {
+      throw new ParameterValidationError(toolName, issues);
+    }
+
+    if (this.isProtocolMode()) {
+      try {
+        const result = await this.transport!.request('tools/call', {
+          name: toolName,
+          arguments: parameters
+        }, signal);
+        return toMCPResponse(result);
+      } catch (error) {
+        console.error(`Failed to execute tool ${toolName}:`, error);
+        throw error;
+      }
+    }
+
     try {
       // Execute the tool by calling its specific endpoint
-      const response = await axios.post(`${this.serverUrl}${tool.endpoint}`, parameters, {
+      // Only read-only tools are safe to retry - repeating a mutating call could e.g. create two payouts
+      const response = await httpClient.post(`${this.serverUrl}${tool.endpoint || `/tools/${tool.name}`}`, parameters, {
         headers: {
           'Authorization': `Bearer ${this.secretKey}`,
           'Content-Type': 'application/json'
-        }
+        },
+        timeoutMs: TIMEOUTS.executeTool,
+        idempotent: classifyTool(tool) === 'read-only',
+        signal
       });
 
       return response.data;
@@ -149,32 +395,92 @@ export class MCPClient {
    * Query the TazaPay documentation using RAG (Retrieval-Augmented Generation)
    * This provides intelligent answers to questions about TazaPay APIs, integration guides, etc.
    * @param question - Natural language question about TazaPay services
-   * @returns Promise<string> - AI-generated answer based on TazaPay documentation
+   * @param signal - Cancels the request (optional)
+   * @returns Promise<RAGAnswer> - AI-generated answer and the documentation pages it came from
    * @throws Error if not authenticated or query fails
    */
-  async askDocumentationQuestion(question: string): Promise<string> {
+  async askDocumentationQuestion(question: string, signal?: AbortSignal): Promise<RAGAnswer> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated');
     }
 
+    const cached = this.answerCache?.get(question, this.serverUrl);
+    if (cached) {
+      return cached;
+    }
+
     try {
       // Send question to RAG endpoint for intelligent documentation search
-      const response = await axios.post(`${this.serverUrl}/rag/query`, {
+      const response = await httpClient.post(`${this.serverUrl}/rag/query`, {
         question: question
       }, {
         headers: {
           'Authorization': `Bearer ${this.secretKey}`,
           'Content-Type': 'application/json'
-        }
+        },
+        timeoutMs: TIMEOUTS.ragQuery,
+        idempotent: true,
+        signal
       });
 
-      return response.data.answer || 'No answer found';
+      const answer: RAGAnswer = {
+        answer: response.data.answer || 'No answer found',
+        sources: parseSources(response.data.sources)
+      };
+      if (response.data.answer) {
+        await this.answerCache?.set(question, this.serverUrl, answer);
+      }
+      return answer;
     } catch (error) {
       console.error('Failed to ask documentation question:', error);
       throw error;
     }
   }
 
+  /**
+   * List resources exposed by the MCP server (resources/list)
+   * @returns Promise<MCPResource[]> - Available resources (empty if the server has none)
+   * @throws Error if not authenticated or the client is in REST mode
+   */
+  async getResources(): Promise<MCPResource[]> {
+    this.assertProtocolMode('Resources');
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+    return this.listAll('resources/list', 'resources');
+  }
+
+  /**
+   * List prompt templates exposed by the MCP server (prompts/list)
+   * @returns Promise<MCPPrompt[]> - Available prompts (empty if the server has none)
+   * @throws Error if not authenticated or the client is in REST mode
+   */
+  async getPrompts(): Promise<MCPPrompt[]> {
+    this.assertProtocolMode('Prompts');
+    if (!this.serverCapabilities.prompts) {
+      return [];
+    }
+    return this.listAll('prompts/list', 'prompts');
+  }
+
+  private assertProtocolMode(feature: string): void {
+    if (!this.isAuthenticated) {
+      throw new Error('Not authenticated');
+    }
+    if (!this.isProtocolMode()) {
+      throw new Error(`${feature} are only available when using an MCP transport (tazapay-mcp.transport)`);
+    }
+  }
+
+  /**
+   * Close the MCP session and any underlying connection or child process
+   */
+  async dispose(): Promise<void> {
+    this.isAuthenticated = false;
+    await this.transport?.close();
+    this.transport = undefined;
+  }
+
   /**
    * Get the cached list of available tools
    * Returns tools that were fetched during the last successful getTools() call
@@ -184,6 +490,22 @@ export class MCPClient {
     return this.tools;
   }
 
+  /**
+   * Get the protocol this client uses to reach the server
+   * @returns MCPTransportMode - Transport chosen when the client was created
+   */
+  getTransport(): MCPTransportMode {
+    return this.options.transport;
+  }
+
+  /**
+   * Get the base URL of the server this client talks to
+   * @returns string - Server URL passed to the constructor
+   */
+  getServerUrl(): string {
+    return this.serverUrl;
+  }
+
   /**
    * Check if the client is currently authenticated and connected to the server
    * @returns boolean - true if authenticated, false otherwise
@@ -191,4 +513,43 @@ export class MCPClient {
   isConnected(): boolean {
     return this.isAuthenticated;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert an MCP CallToolResult into the extension's response format
+ * Structured content is preferred; otherwise text content is parsed as JSON where possible
+ * @param result - Result of a tools/call request
+ * @returns MCPResponse - Normalized response
+ */
+function toMCPResponse(result: any): MCPResponse {
+  const content: MCPContent[] = result.content || [];
+  const text = content
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+
+  if (result.isError) {
+    return { success: false, error: text || 'Tool execution failed', content };
+  }
+
+  let data = result.structuredContent;
+  if (data === undefined && text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  return { success: true, data, content };
+}
+
+/**
+ * Output channel showing what local MCP servers write to stderr
+ */
+function getServerLog(): vscode.OutputChannel {
+  if (!serverLog) {
+    serverLog = vscode.window.createOutputChannel('TazaPay MCP Server');
+  }
+  return serverLog;
+}
@@ -0,0 +1,136 @@
+/**
+ * TazaPay MCP Server Definition Provider
+ *
+ * This module registers the TazaPay MCP server with VS Code's built-in MCP support
+ * (`vscode.lm.registerMcpServerDefinitionProvider`), so Copilot and the MCP tooling
+ * see the same server that MCPClient talks to without any manual mcp.json setup.
+ *
+ * Features:
+ * - Server definition built from the active environment's server URL and the MCP transport settings
+ *   (only for the streamableHttp and stdio transports - the legacy REST routes are not an MCP endpoint)
+ * - No definition when the endpoint path would leave the server URL's origin
+ * - Stored secret key injected as a Bearer header (or environment variable for stdio) on start
+ * - Definitions refreshed when the secret key, active environment or server settings change
+ */
+
+import * as vscode from 'vscode';
+import { EnvironmentManager } from './environments';
+import { resolveMcpEndpoint } from './mcpTransport';
+import { SecretKeyStore } from './secretStore';
+
+// Settings that affect the server definition (environment URLs are covered by onDidChangeEnvironment)
+const WATCHED_SETTINGS = [
+  'tazapay-mcp.transport',
+  'tazapay-mcp.mcpPath',
+  'tazapay-mcp.stdio'
+];
+
+/**
+ * Provides the TazaPay MCP server definition to VS Code
+ */
+export class TazaPayMcpServerProvider implements vscode.McpServerDefinitionProvider, vscode.Disposable {
+  // Event emitter for notifying VS Code that the server definition changed
+  private _onDidChangeMcpServerDefinitions = new vscode.EventEmitter<void>();
+  readonly onDidChangeMcpServerDefinitions: vscode.Event<void> = this._onDidChangeMcpServerDefinitions.event;
+
+  private version = 0;  // Bumped on every refresh so VS Code re-reads the server's tools
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param secretKeyStore - Secure storage holding the TazaPay secret keys
+   * @param environments - Environment profiles (the active one is served)
+   */
+  constructor(
+    private readonly secretKeyStore: SecretKeyStore,
+    private readonly environments: EnvironmentManager
+  ) {
+    this.disposables.push(
+      this._onDidChangeMcpServerDefinitions,
+      secretKeyStore.onDidChange(() => this.refresh()),
+      environments.onDidChangeEnvironment(() => this.refresh()),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this.refresh()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (WATCHED_SETTINGS.some(setting => e.affectsConfiguration(setting))) {
+          this.refresh();
+        }
+      })
+    );
+  }
+
+  /**
+   * Signal VS Code to re-query the server definition
+   */
+  refresh(): void {
+    this.version++;
+    this._onDidChangeMcpServerDefinitions.fire();
+  }
+
+  /**
+   * Describe the TazaPay server from the current settings
+   * The secret key is not included here - it is injected in resolveMcpServerDefinition
+   */
+  async provideMcpServerDefinitions(): Promise<vscode.McpServerDefinition[]> {
+    const config = vscode.workspace.getConfiguration('tazapay-mcp');
+    const environment = this.environments.getActive();
+    const serverUrl = environment.serverUrl;
+    const mcpPath = config.get<string>('mcpPath') || '/mcp';
+    const transport = config.get<string>('transport') || 'rest';
+
+    // Changing the version tells VS Code to refresh the server's tools
+    const version = String(this.version);
+
+    if (transport === 'stdio') {
+      const command = config.get<string>('stdio.command');
+      if (!command || !vscode.workspace.isTrusted) {
+        return [];
+      }
+      return [new vscode.McpStdioServerDefinition(
+        `TazaPay (${environment.name})`,
+        command,
+        config.get<string[]>('stdio.args') || [],
+        { TAZAPAY_SERVER_URL: serverUrl },
+        version
+      )];
+    }
+
+    // The REST routes and the legacy SSE endpoint are not a Streamable HTTP endpoint VS Code could use
+    if (transport !== 'streamableHttp') {
+      return [];
+    }
+    let endpoint: string;
+    try {
+      endpoint = resolveMcpEndpoint(serverUrl, mcpPath);
+    } catch (error) {
+      console.error('Not offering the TazaPay MCP server definition:', error);
+      return [];
+    }
+    return [new vscode.McpHttpServerDefinition(`TazaPay (${environment.name})`, vscode.Uri.parse(endpoint), {}, version)];
+  }
+
+  /**
+   * Inject the stored secret key when VS Code starts the server
+   * Prompts for authentication if no key has been saved yet
+   */
+  async resolveMcpServerDefinition(server: vscode.McpServerDefinition): Promise<vscode.McpServerDefinition | undefined> {
+    let secretKey = await this.secretKeyStore.get();
+    if (!secretKey) {
+      await vscode.commands.executeCommand('tazapay-mcp.authenticate');
+      secretKey = await this.secretKeyStore.get();
+    }
+    if (!secretKey) {
+      return undefined; // User cancelled - don't start the server
+    }
+
+    if (server instanceof vscode.McpStdioServerDefinition) {
+      server.env = { ...server.env, TAZAPAY_SECRET_KEY: secretKey };
+    } else {
+      server.headers = { ...server.headers, 'Authorization': `Bearer ${secretKey}` };
+    }
+    return server;
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+}
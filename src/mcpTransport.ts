@@ -0,0 +1,524 @@
+/**
+ * MCP Transports
+ *
+ * This module implements the Model Context Protocol wire format (JSON-RPC 2.0) over the
+ * transports defined by the MCP specification, so MCPClient can talk to standard MCP servers.
+ *
+ * Features:
+ * - Streamable HTTP transport (single POST endpoint, JSON or SSE responses, session ids)
+ * - HTTP+SSE transport (long-lived event stream plus a POST endpoint announced by the server)
+ * - stdio transport for local servers (newline-delimited JSON over a child process)
+ * - Request/response correlation, timeouts and JSON-RPC error mapping
+ * - Endpoints confined to the server's origin, so the secret key never leaves it
+ */
+
+import axios from 'axios';
+import { ChildProcess, spawn } from 'child_process';
+import { CancelledError } from './errors';
+import { httpClient, toApiError } from './httpClient';
+import { SseParser, parseSseBody } from './sse';
+
+// Protocol revision requested during the initialize handshake
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+// How long to wait for a response before failing a request
+const REQUEST_TIMEOUT_MS = 60000;
+
+// How long an HTTP+SSE server has to open its event stream and announce the POST endpoint
+const SSE_CONNECT_TIMEOUT_MS = 30000;
+
+/**
+ * JSON-RPC 2.0 request or notification (notifications have no id)
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: JsonRpcErrorObject;
+}
+
+/**
+ * Error object carried by a failed JSON-RPC response
+ */
+export interface JsonRpcErrorObject {
+  code: number;     // JSON-RPC / MCP error code (e.g. -32601 method not found)
+  message: string;  // Short error description
+  data?: any;       // Optional server-defined details
+}
+
+/**
+ * Error thrown when the server answers a request with a JSON-RPC error
+ */
+export class JsonRpcError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: any) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/**
+ * Resolve the MCP endpoint path against the server URL
+ * The endpoint must stay on the server's origin, so the Bearer secret key is never sent to another host
+ * @param serverUrl - Server base URL (e.g. https://api.tazapay.com)
+ * @param mcpPath - Endpoint path relative to the server URL (e.g. /mcp)
+ * @returns string - Full endpoint URL
+ * @throws Error if the path resolves to a different origin
+ */
+export function resolveMcpEndpoint(serverUrl: string, mcpPath: string): string {
+  const base = new URL(serverUrl.replace(/\/*$/, '/'));
+  const endpoint = new URL(mcpPath.replace(/^\/+/, ''), base);
+  if (endpoint.origin !== base.origin) {
+    throw new Error(`The MCP endpoint ${endpoint.origin} is not on the server URL ${base.origin} (tazapay-mcp.mcpPath)`);
+  }
+  return endpoint.toString();
+}
+
+/**
+ * Common interface implemented by all MCP transports
+ */
+export interface MCPTransport {
+  /**
+   * Send a JSON-RPC request and wait for its result
+   * @param method - MCP method name (e.g. "tools/list")
+   * @param params - Method parameters
+   * @param signal - Cancels the request; the server is sent `notifications/cancelled`
+   * @returns Promise resolving to the `result` member of the response
+   * @throws JsonRpcError if the server returns an error response
+   * @throws CancelledError if the signal aborted
+   */
+  request<T = any>(method: string, params?: any, signal?: AbortSignal): Promise<T>;
+
+  /**
+   * Send a JSON-RPC notification (no response expected)
+   * @param method - MCP notification name (e.g. "notifications/initialized")
+   * @param params - Notification parameters
+   */
+  notify(method: string, params?: any): Promise<void>;
+
+  /**
+   * Record the protocol version negotiated during initialize
+   * HTTP transports send it on every subsequent request
+   */
+  setProtocolVersion(version: string): void;
+
+  /**
+   * Close the connection and fail any outstanding requests
+   */
+  close(): Promise<void>;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Shared JSON-RPC bookkeeping for all transports
+ * Subclasses only need to deliver outgoing messages and feed incoming ones to handleMessage
+ */
+abstract class JsonRpcTransport implements MCPTransport {
+  private nextId = 1;
+  private pending = new Map<number | string, PendingRequest>();
+  protected protocolVersion?: string;
+
+  async request<T = any>(method: string, params?: any, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    const id = this.nextId++;
+
+    const result = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request "${method}" timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    // Fail the request locally and ask the server to stop working on it
+    const onAbort = () => {
+      this.settle(id, undefined, new CancelledError());
+      this.notify('notifications/cancelled', { requestId: id, reason: 'Cancelled by the user' })
+        .catch(error => console.log('Failed to send MCP cancellation:', error));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Wait for the response while the message is still being sent, so a timeout or cancellation
+    // during a slow send settles the request instead of leaving `result` rejected and unhandled
+    const sent = this.send({ jsonrpc: '2.0', id, method, params }, signal).catch(error => {
+      this.settle(id, undefined, error instanceof Error ? error : new Error(String(error)));
+    });
+
+    try {
+      const [, value] = await Promise.all([sent, result]);
+      return value;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  async notify(method: string, params?: any): Promise<void> {
+    await this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async close(): Promise<void> {
+    this.failAll(new Error('MCP connection closed'));
+  }
+
+  /**
+   * Deliver a message to the server
+   * @param signal - Aborts the underlying HTTP request (if the transport uses one)
+   */
+  protected abstract send(message: JsonRpcMessage, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Route a message received from the server
+   * Responses settle the matching request; server-initiated requests get a minimal reply
+   */
+  protected handleMessage(message: JsonRpcMessage): void {
+    if (message.method) {
+      if (message.id !== undefined && message.id !== null) {
+        // Server-to-client request - we only support ping
+        const reply: JsonRpcMessage = message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported: ${message.method}` } };
+        this.send(reply).catch(error => console.error('Failed to reply to MCP server request:', error));
+      }
+      return; // Notifications (progress, list_changed, logging) are ignored
+    }
+
+    if (message.id === undefined || message.id === null) {
+      return;
+    }
+
+    if (message.error) {
+      this.settle(message.id, undefined, new JsonRpcError(message.error.code, message.error.message, message.error.data));
+    } else {
+      this.settle(message.id, message.result);
+    }
+  }
+
+  /**
+   * Parse a raw JSON payload (single message or batch) and route every message in it
+   */
+  protected handlePayload(payload: string | object): void {
+    const parsed = typeof payload === 'string' ? JSON.parse(payload) : payload;
+    const messages: JsonRpcMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+    messages.forEach(message => this.handleMessage(message));
+  }
+
+  protected failAll(error: Error): void {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id, undefined, error);
+    }
+  }
+
+  private settle(id: number | string, result: any, error?: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+}
+
+/**
+ * Streamable HTTP transport
+ * Every message is POSTed to a single endpoint; the server answers with JSON or a short SSE stream
+ */
+export class StreamableHttpTransport extends JsonRpcTransport {
+  private sessionId?: string;  // Mcp-Session-Id assigned by the server during initialize
+
+  /**
+   * @param url - Full URL of the MCP endpoint (e.g. https://api.tazapay.com/mcp)
+   * @param headers - Extra headers sent with every request (e.g. Authorization)
+   */
+  constructor(private readonly url: string, private readonly headers: Record<string, string>) {
+    super();
+  }
+
+  protected async send(message: JsonRpcMessage, signal?: AbortSignal): Promise<void> {
+    // JSON-RPC requests aren't retried - the server may already have acted on them
+    const response = await httpClient.post<string>(this.url, message, {
+      headers: this.buildHeaders({
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream'
+      }),
+      responseType: 'text',  // Keep the raw body - it may be SSE
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      idempotent: false,
+      signal
+    });
+
+    const sessionId = response.headers['mcp-session-id'];
+    if (sessionId) {
+      this.sessionId = String(sessionId);
+    }
+
+    const body: string = response.data;
+    if (response.status === 202 || !body) {
+      return; // Accepted notification or response - nothing to route
+    }
+
+    const contentType = String(response.headers['content-type'] || '');
+    if (contentType.includes('text/event-stream')) {
+      for (const event of parseSseBody(body)) {
+        if (event.event === 'message' && event.data) {
+          this.handlePayload(event.data);
+        }
+      }
+    } else {
+      this.handlePayload(body);
+    }
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    if (this.sessionId) {
+      // Explicitly terminate the session; servers may not support this, so ignore failures
+      await httpClient.delete(this.url, { headers: this.buildHeaders({}), timeoutMs: 5000, idempotent: false }).catch(() => undefined);
+      this.sessionId = undefined;
+    }
+  }
+
+  private buildHeaders(extra: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...this.headers, ...extra };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    return headers;
+  }
+}
+
+/**
+ * HTTP+SSE transport (MCP 2024-11-05)
+ * Responses arrive on a long-lived event stream; requests are POSTed to the endpoint the server announces
+ */
+export class SseTransport extends JsonRpcTransport {
+  private endpoint?: Promise<string>;              // POST endpoint announced via the "endpoint" event
+  private stream?: { destroy(): void };            // Underlying response stream
+  private connection?: AbortController;            // Aborts the event stream request
+
+  /**
+   * @param url - Full URL of the SSE endpoint (e.g. https://api.tazapay.com/sse)
+   * @param headers - Extra headers sent with every request (e.g. Authorization)
+   */
+  constructor(private readonly url: string, private readonly headers: Record<string, string>) {
+    super();
+  }
+
+  protected async send(message: JsonRpcMessage, signal?: AbortSignal): Promise<void> {
+    const endpoint = await this.waitForEndpoint(signal);
+    await httpClient.post(endpoint, message, {
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      idempotent: false,
+      signal
+    });
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    this.disconnect();
+  }
+
+  /**
+   * Wait for the POST endpoint, giving up when the caller cancels
+   */
+  private waitForEndpoint(signal?: AbortSignal): Promise<string> {
+    const endpoint = this.connect();
+    if (!signal) {
+      return endpoint;
+    }
+    if (signal.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+    return new Promise<string>((resolve, reject) => {
+      const onAbort = () => reject(new CancelledError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      endpoint.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Open the event stream on first use and wait for the server to announce its POST endpoint
+   * Rejects if the stream fails or ends before the announcement, or takes longer than SSE_CONNECT_TIMEOUT_MS
+   */
+  private connect(): Promise<string> {
+    if (this.endpoint) {
+      return this.endpoint;
+    }
+
+    const connection = new AbortController();
+    this.connection = connection;
+    this.endpoint = new Promise<string>((resolve, reject) => {
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);  // No-op once the endpoint was announced
+        // Events of a stream that was already closed or replaced are ignored
+        if (this.connection === connection) {
+          this.disconnect();
+          this.failAll(error);
+        }
+      };
+      const timer = setTimeout(() => {
+        fail(new Error('MCP SSE server did not announce its endpoint in time'));
+      }, SSE_CONNECT_TIMEOUT_MS);
+
+      // The event stream stays open for the whole session, so it bypasses the shared client's timeouts and retries
+      axios.get(this.url, {
+        headers: { ...this.headers, 'Accept': 'text/event-stream' },
+        responseType: 'stream',
+        signal: connection.signal
+      }).then(response => {
+        this.stream = response.data;
+        const parser = new SseParser(event => {
+          if (event.event === 'endpoint') {
+            // Requests carry the secret key, so they are only POSTed back to the stream's origin
+            const endpoint = new URL(event.data, this.url);
+            if (endpoint.origin !== new URL(this.url).origin) {
+              fail(new Error(`MCP SSE server announced an endpoint on another origin (${endpoint.origin})`));
+              return;
+            }
+            clearTimeout(timer);
+            resolve(endpoint.toString());
+          } else if (event.event === 'message') {
+            try {
+              this.handlePayload(event.data);
+            } catch (error) {
+              console.error('Invalid MCP message on SSE stream:', error);
+            }
+          }
+        });
+
+        response.data.setEncoding('utf8');
+        response.data.on('data', (chunk: string) => parser.feed(chunk));
+        response.data.on('end', () => {
+          parser.end();
+          fail(new Error('MCP SSE stream ended'));
+        });
+        response.data.on('error', (error: Error) => fail(error));
+      }, error => {
+        fail(toApiError(error));
+      });
+    });
+
+    return this.endpoint;
+  }
+
+  /**
+   * Drop the event stream; the next message opens a new one
+   */
+  private disconnect(): void {
+    const { connection, stream } = this;
+    this.connection = undefined;
+    this.stream = undefined;
+    this.endpoint = undefined;
+    connection?.abort();
+    stream?.destroy();
+  }
+}
+
+/**
+ * stdio transport for local MCP servers
+ * Spawns the server process and exchanges newline-delimited JSON-RPC messages over stdin/stdout
+ */
+export class StdioTransport extends JsonRpcTransport {
+  private process?: ChildProcess;  // Running server process
+  private stdoutBuffer = '';       // Partial line received from stdout
+
+  /**
+   * @param command - Executable that starts the MCP server
+   * @param args - Command line arguments
+   * @param env - Extra environment variables (e.g. the secret key)
+   * @param log - Receives the server's stderr output
+   */
+  constructor(
+    private readonly command: string,
+    private readonly args: string[],
+    private readonly env: Record<string, string>,
+    private readonly log: (message: string) => void
+  ) {
+    super();
+  }
+
+  protected async send(message: JsonRpcMessage): Promise<void> {
+    const child = this.start();
+    await new Promise<void>((resolve, reject) => {
+      child.stdin!.write(JSON.stringify(message) + '\n', error => error ? reject(error) : resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    await super.close();
+    this.process?.kill();
+    this.process = undefined;
+  }
+
+  private start(): ChildProcess {
+    if (this.process) {
+      return this.process;
+    }
+
+    // Windows needs a shell to run npx and other .cmd launchers
+    const child = spawn(this.command, this.args, {
+      env: { ...process.env, ...this.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      shell: process.platform === 'win32'
+    });
+
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => {
+      this.stdoutBuffer += chunk;
+      const lines = this.stdoutBuffer.split('\n');
+      this.stdoutBuffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          this.handlePayload(line);
+        } catch (error) {
+          console.error('Invalid MCP message on stdout:', error);
+        }
+      }
+    });
+
+    // Servers log to stderr
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (chunk: string) => this.log(chunk.trimEnd()));
+
+    // Writing to a server that has gone away (EPIPE) fails the requests waiting on it
+    child.stdin!.on('error', error => {
+      this.failAll(new Error(`MCP server stopped accepting requests: ${error.message}`));
+    });
+
+    child.on('error', error => {
+      this.process = undefined;
+      this.failAll(error);
+    });
+    child.on('exit', code => {
+      this.process = undefined;
+      this.failAll(new Error(`MCP server exited with code ${code}`));
+    });
+
+    this.process = child;
+    return child;
+  }
+}
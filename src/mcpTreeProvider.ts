@@ -1,19 +1,25 @@
 /**
  * MCP Tree Provider for VS Code Explorer Panel
- * 
+ *
  * This module provides a tree view in the VS Code explorer for displaying and managing
  * TazaPay MCP tools. Users can see available tools, their descriptions, and execute them
  * directly from the sidebar interface.
- * 
+ *
  * Features:
- * - Tree view display of available MCP tools
- * - Click-to-execute functionality for tools
+ * - Tools grouped by category (payments, payouts, beneficiaries, checkout...), each with an icon
+ * - Favorite tools pinned at the top, persisted in globalState
+ * - Filter by name, title, description or category
+ * - Click-to-execute functionality for tools, context menu for the other tool actions
  * - Real-time updates when tools are refreshed
- * - Tooltip descriptions for each tool
  */
 
 import * as vscode from 'vscode';
 import { MCPTool } from './mcpClient';
+import { ToolCategory, categorizeTool, compareCategories } from './toolCategories';
+import { classifyTool } from './toolSafety';
+
+// globalState key holding the names of favorite tools
+const FAVORITES_KEY = 'tazapay.favoriteTools';
 
 /**
  * Individual tree item representing an MCP tool in the explorer
@@ -22,25 +28,57 @@ import { MCPTool } from './mcpClient';
 export class MCPTreeItem extends vscode.TreeItem {
   /**
    * Create a new tree item for displaying an MCP tool
-   * @param label - Display name for the tree item
-   * @param description - Description shown in tooltip
-   * @param tool - Optional MCPTool object for executable items
-   * @param collapsibleState - Whether item can be expanded/collapsed
+   * @param tool - Tool shown by this item
+   * @param category - Category the tool belongs to
+   * @param favorite - Whether the tool is pinned to the top of the tree
    */
   constructor(
-    public readonly label: string,
-    public readonly description: string,
-    public readonly tool?: MCPTool,
-    public readonly collapsibleState?: vscode.TreeItemCollapsibleState
+    public readonly tool: MCPTool,
+    category: ToolCategory,
+    public readonly favorite: boolean
   ) {
-    super(label, collapsibleState);
-    this.tooltip = description;
-    // Set up click command for tool execution (only for tools, not categories)
-    this.command = tool ? {
+    super(tool.name, vscode.TreeItemCollapsibleState.None);
+    this.description = tool.title && tool.title !== tool.name ? tool.title : tool.description;
+    this.iconPath = new vscode.ThemeIcon(favorite ? 'star-full' : 'symbol-method');
+    this.contextValue = favorite ? 'favoriteTool' : 'tool';
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${tool.title || tool.name}**\n\n`);
+    if (tool.description) {
+      tooltip.appendText(`${tool.description}\n\n`);
+    }
+    tooltip.appendMarkdown(`${category.label} · ${classifyTool(tool)}`);
+    this.tooltip = tooltip;
+
+    // Set up click command for tool execution
+    this.command = {
       command: 'tazapay-mcp.executeTool',
       title: 'Execute Tool',
       arguments: [tool]
-    } : undefined;
+    };
+  }
+}
+
+/**
+ * Tree item grouping the tools of one category
+ */
+export class MCPCategoryItem extends vscode.TreeItem {
+  /**
+   * @param category - Category shown by this item
+   * @param tools - Tools in the category (after filtering)
+   * @param expanded - Whether the group starts expanded (while a filter is active)
+   */
+  constructor(
+    public readonly category: ToolCategory,
+    public readonly tools: MCPTool[],
+    expanded: boolean
+  ) {
+    super(category.label, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+    // Distinct ids per filter state so groups expand when a filter is applied
+    this.id = `category:${category.id}${expanded ? ':filtered' : ''}`;
+    this.description = `${tools.length}`;
+    this.iconPath = new vscode.ThemeIcon(category.icon);
+    this.contextValue = 'toolCategory';
   }
 }
 
@@ -48,14 +86,18 @@ export class MCPTreeItem extends vscode.TreeItem {
  * Tree data provider for the MCP tools view in VS Code explorer
  * Manages the display and interaction with TazaPay MCP tools in the sidebar
  */
-export class MCPTreeProvider implements vscode.TreeDataProvider<MCPTreeItem> {
+export class MCPTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   // Event emitter for notifying VS Code when tree data changes
-  private _onDidChangeTreeData: vscode.EventEmitter<MCPTreeItem | undefined | null | void> = new vscode.EventEmitter<MCPTreeItem | undefined | null | void>();
-  readonly onDidChangeTreeData: vscode.Event<MCPTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+  private _onDidChangeTreeData: vscode.EventEmitter<vscode.TreeItem | undefined | null | void> = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
   private tools: MCPTool[] = [];  // Cached list of available tools
+  private filter = '';            // Current filter text (empty when not filtering)
 
-  constructor() {}
+  /**
+   * @param globalState - Extension globalState holding the favorite tools
+   */
+  constructor(private readonly globalState: vscode.Memento) {}
 
   /**
    * Trigger a refresh of the tree view
@@ -75,31 +117,93 @@ export class MCPTreeProvider implements vscode.TreeDataProvider<MCPTreeItem> {
     this.refresh();
   }
 
+  /**
+   * Current filter text
+   */
+  getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * Only show tools whose name, title, description or category contain the text
+   * @param filter - Filter text (empty to show every tool)
+   */
+  setFilter(filter: string): void {
+    this.filter = filter.trim();
+    this.refresh();
+  }
+
+  /**
+   * Names of the favorite tools
+   */
+  getFavorites(): string[] {
+    return this.globalState.get<string[]>(FAVORITES_KEY, []);
+  }
+
+  /**
+   * Pin or unpin a tool at the top of the tree
+   * @param toolName - Tool to update
+   * @param favorite - true to pin, false to unpin
+   */
+  async setFavorite(toolName: string, favorite: boolean): Promise<void> {
+    const favorites = this.getFavorites().filter(name => name !== toolName);
+    await this.globalState.update(FAVORITES_KEY, favorite ? [...favorites, toolName] : favorites);
+    this.refresh();
+  }
+
   /**
    * Get the tree item representation for display in VS Code
    * Required by TreeDataProvider interface
    * @param element - Tree item to get display info for
    * @returns The tree item for VS Code to display
    */
-  getTreeItem(element: MCPTreeItem): vscode.TreeItem {
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
     return element;
   }
 
   /**
-   * Get children for a tree item (for hierarchical display)
-   * Currently shows a flat list of tools, but could be extended for categories
+   * Get children for a tree item
+   * The root lists favorite tools followed by one group per category
    * @param element - Parent element (undefined for root level)
    * @returns Promise resolving to array of child items
    */
-  getChildren(element?: MCPTreeItem): Thenable<MCPTreeItem[]> {
-    if (!element) {
-      // Root level - show all tools as non-collapsible items
-      return Promise.resolve(this.tools.map(tool => 
-        new MCPTreeItem(tool.name, tool.description, tool, vscode.TreeItemCollapsibleState.None)
-      ));
+  getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+    if (element instanceof MCPCategoryItem) {
+      return Promise.resolve(element.tools.map(tool => new MCPTreeItem(tool, element.category, false)));
+    }
+    if (element) {
+      return Promise.resolve([]);
+    }
+
+    const favorites = new Set(this.getFavorites());
+    const pinned: MCPTreeItem[] = [];
+    const groups = new Map<string, { category: ToolCategory; tools: MCPTool[] }>();
+    for (const tool of [...this.tools].sort((a, b) => a.name.localeCompare(b.name))) {
+      const category = categorizeTool(tool);
+      if (!this.matchesFilter(tool, category)) {
+        continue;
+      }
+      if (favorites.has(tool.name)) {
+        pinned.push(new MCPTreeItem(tool, category, true));
+        continue;
+      }
+      const group = groups.get(category.id) ?? { category, tools: [] };
+      group.tools.push(tool);
+      groups.set(category.id, group);
     }
 
-    // No children for individual tool items (flat structure)
-    return Promise.resolve([]);
+    const categories = [...groups.values()]
+      .sort((a, b) => compareCategories(a.category, b.category))
+      .map(group => new MCPCategoryItem(group.category, group.tools, this.filter !== ''));
+    return Promise.resolve([...pinned, ...categories]);
   }
-}
\ No newline at end of file
+
+  private matchesFilter(tool: MCPTool, category: ToolCategory): boolean {
+    if (!this.filter) {
+      return true;
+    }
+    const text = this.filter.toLowerCase();
+    return [tool.name, tool.title, tool.description, category.label]
+      .some(value => value?.toLowerCase().includes(text));
+  }
+}
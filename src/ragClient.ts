@@ -7,14 +7,60 @@
  * 
  * Features:
  * - Natural language queries about TazaPay services
+ * - Streaming answers (SSE or chunked text) with cancellation
+ * - Source documents (URL, title, section, score) returned with every answer
+ * - Cached answers for repeated questions
  * - Context-aware responses from official documentation
- * - Fallback error handling for network issues
- * - Rate limiting and timeout management
+ * - Offline answers from the documentation snapshot when the service is unreachable
+ * - Retries, rate limiting and timeouts through the shared HTTP client
  * - Integration examples and troubleshooting guidance
  */
 
-import axios from 'axios';
 import * as vscode from 'vscode';
+import { AnswerCache } from './answerCache';
+import { DocsIndex } from './docsIndex';
+import { CancelledError, NetworkError, RateLimitError, ServerError, TazaPayApiError } from './errors';
+import { TIMEOUTS, httpClient, toApiError } from './httpClient';
+import { SseParser } from './sse';
+
+// Answer used when the service returns no answer text
+const NO_ANSWER = 'I apologize, but I couldn\'t find a relevant answer to your question. Please try rephrasing your question or contact TazaPay support for more specific help.';
+
+/**
+ * One earlier turn of a conversation, sent along with follow-up questions
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';  // Who produced the message
+  content: string;             // Question or answer text
+}
+
+/**
+ * Optional conversation context for a RAG query
+ */
+export interface RAGQueryOptions {
+  conversationId?: string;        // Id shared by every question in one chat conversation
+  history?: ConversationTurn[];   // Earlier turns, oldest first
+}
+
+/**
+ * A documentation page an answer was drawn from
+ */
+export interface RAGSource {
+  url: string;       // Link to the page on docs.tazapay.com
+  title: string;     // Page title
+  section?: string;  // Heading within the page (if known)
+  score?: number;    // Retrieval relevance score (higher is more relevant)
+}
+
+/**
+ * A documentation answer and the sources it was generated from
+ */
+export interface RAGAnswer {
+  answer: string;        // Markdown answer text
+  sources: RAGSource[];  // Supporting documents, most relevant first
+  offline?: boolean;     // Answered from the offline documentation snapshot
+  cached?: boolean;      // Served from the answer cache
+}
 
 /**
  * Client for querying TazaPay's documentation using RAG technology
@@ -24,53 +70,242 @@ export class TazaPayRAGClient {
   private baseUrl: string;  // Base URL for TazaPay API endpoints
 
   /**
-   * Initialize the RAG client with configuration from VS Code settings
-   * Uses configured server URL or defaults to TazaPay's production API
+   * Initialize the RAG client for an environment
+   * Without an explicit URL, uses the configured server URL or defaults to TazaPay's production API
+   * @param baseUrl - RAG base URL of the active environment profile
+   * @param offlineDocs - Offline documentation index used when the RAG service can't be reached
+   * @param answerCache - Cache for answers to standalone questions
    */
-  constructor() {
+  constructor(baseUrl?: string, private readonly offlineDocs?: DocsIndex, private readonly answerCache?: AnswerCache) {
     const config = vscode.workspace.getConfiguration('tazapay-mcp');
-    this.baseUrl = config.get<string>('serverUrl') || 'https://api.tazapay.com';
+    this.baseUrl = baseUrl || config.get<string>('serverUrl') || 'https://api.tazapay.com';
   }
 
   /**
    * Query TazaPay's RAG system with a natural language question
    * Provides intelligent responses based on TazaPay's documentation and best practices
+   * Earlier turns and a conversation id can be passed so follow-up questions keep their subject
    * @param question - Natural language question about TazaPay services
-   * @returns Promise<string> - AI-generated response with relevant information
+   * @param options - Conversation id and earlier turns (optional)
+   * @param signal - Cancels the request (optional)
+   * @returns Promise<RAGAnswer> - AI-generated response with its source documents
+   * @throws CancelledError if the signal aborted
    */
-  async queryRAG(question: string): Promise<string> {
+  async queryRAG(question: string, options: RAGQueryOptions = {}, signal?: AbortSignal): Promise<RAGAnswer> {
+    const cached = this.getCachedAnswer(question, options);
+    if (cached) {
+      return cached;
+    }
+
     try {
       // Send question to TazaPay's public RAG endpoint
-      const response = await axios.post(`${this.baseUrl}/public/rag/query`, {
+      const response = await httpClient.post(`${this.baseUrl}/public/rag/query`, {
         question: question,
+        conversation_id: options.conversationId,
+        history: options.history && options.history.length > 0 ? options.history : undefined,
         source: 'vscode-copilot'  // Identify requests from VS Code extension
       }, {
         headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'TazaPay-VSCode-Extension/1.0.0'
+          'Content-Type': 'application/json'
         },
-        timeout: 30000  // 30 second timeout for RAG queries
+        timeoutMs: TIMEOUTS.ragQuery,
+        idempotent: true,  // Questions don't change anything on the server
+        signal
       });
 
-      return response.data.answer || 'I apologize, but I couldn\'t find a relevant answer to your question. Please try rephrasing your question or contact TazaPay support for more specific help.';
+      const answer: RAGAnswer = {
+        answer: response.data.answer || NO_ANSWER,
+        sources: parseSources(response.data.sources)
+      };
+      if (response.data.answer) {
+        await this.cacheAnswer(question, options, answer);
+      }
+      return answer;
     } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
       console.error('RAG query failed:', error);
-      
-      // Provide specific error messages based on failure type
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED') {
-          return 'The request timed out. Please try again or contact TazaPay support.';
+      return this.answerUnavailable(question, toApiError(error));
+    }
+  }
+
+  /**
+   * Query TazaPay's RAG system and receive the answer as it is generated
+   * Accepts `text/event-stream` and chunked `text/plain` responses; a server that answers with
+   * plain JSON is handled as a single chunk. If the streaming request fails before any text
+   * arrives, the regular single-shot query is used instead.
+   * @param question - Natural language question about TazaPay services
+   * @param onChunk - Called with each piece of answer text, in order
+   * @param options - Conversation id and earlier turns (optional)
+   * @param signal - Aborts the request; text received so far is kept
+   * @returns Promise<RAGAnswer> - The complete answer text and its source documents
+   */
+  async streamRAG(
+    question: string,
+    onChunk: (text: string) => void,
+    options: RAGQueryOptions = {},
+    signal?: AbortSignal
+  ): Promise<RAGAnswer> {
+    const cached = this.getCachedAnswer(question, options);
+    if (cached) {
+      onChunk(cached.answer);
+      return cached;
+    }
+
+    const result: RAGAnswer = { answer: '', sources: [] };
+    const emit = (text: string) => {
+      if (text) {
+        result.answer += text;
+        onChunk(text);
+      }
+    };
+
+    try {
+      const response = await httpClient.post(`${this.baseUrl}/public/rag/query`, {
+        question: question,
+        conversation_id: options.conversationId,
+        history: options.history && options.history.length > 0 ? options.history : undefined,
+        stream: true,
+        source: 'vscode-copilot'  // Identify requests from VS Code extension
+      }, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream, text/plain;q=0.9, application/json;q=0.8'
+        },
+        responseType: 'stream',
+        timeoutMs: TIMEOUTS.ragQuery,
+        idempotent: true,
+        signal
+      });
+
+      await this.readAnswerStream(response.data, String(response.headers['content-type'] || ''), emit,
+        sources => result.sources = sources);
+      if (!result.answer) {
+        emit(NO_ANSWER);
+      } else {
+        await this.cacheAnswer(question, options, result);
+      }
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        return result;
+      }
+      if (result.answer) {
+        console.error('RAG stream interrupted:', error);
+        emit('\n\n*⚠️ The answer was interrupted. Please try asking again.*');
+        return result;
+      }
+
+      // The service is unreachable or overloaded - a second request won't do better
+      const apiError = toApiError(error);
+      if (apiError instanceof NetworkError || apiError instanceof RateLimitError || apiError instanceof ServerError) {
+        const answer = this.answerUnavailable(question, apiError);
+        onChunk(answer.answer);
+        return answer;
+      }
+
+      console.log('Streaming RAG query failed, falling back to a single request:', error);
+      const answer = await this.queryRAG(question, options, signal);
+      onChunk(answer.answer);
+      return answer;
+    }
+  }
+
+  /**
+   * Answer a question the RAG service couldn't answer
+   * Uses the offline documentation snapshot when it has a match, otherwise explains the failure
+   */
+  private answerUnavailable(question: string, error: TazaPayApiError): RAGAnswer {
+    const offline = this.offlineDocs?.answer(question);
+    if (offline) {
+      return offline;
+    }
+    return { answer: describeQueryError(error), sources: [] };
+  }
+
+  /**
+   * Look up a cached answer
+   * Follow-up questions depend on earlier turns, so only standalone questions are cached
+   */
+  private getCachedAnswer(question: string, options: RAGQueryOptions): RAGAnswer | undefined {
+    if (!this.answerCache || (options.history && options.history.length > 0)) {
+      return undefined;
+    }
+    return this.answerCache.get(question, this.baseUrl);
+  }
+
+  private async cacheAnswer(question: string, options: RAGQueryOptions, answer: RAGAnswer): Promise<void> {
+    if (this.answerCache && !(options.history && options.history.length > 0)) {
+      await this.answerCache.set(question, this.baseUrl, answer);
+    }
+  }
+
+  /**
+   * Read a streamed RAG response body and emit its answer text
+   * @param body - Node.js response stream
+   * @param contentType - Response Content-Type header
+   * @param emit - Receives answer text as it arrives
+   * @param onSources - Receives the source documents when the server sends them
+   */
+  private readAnswerStream(
+    body: any,
+    contentType: string,
+    emit: (text: string) => void,
+    onSources: (sources: RAGSource[]) => void
+  ): Promise<void> {
+    const isSse = contentType.includes('text/event-stream');
+    const isJson = contentType.includes('application/json');
+
+    return new Promise<void>((resolve, reject) => {
+      let json = '';   // Buffered body of a non-streaming JSON response
+      let done = false;
+
+      const parser = new SseParser(event => {
+        if (done) {
+          return;
+        }
+        if (event.data === '[DONE]' || event.event === 'done') {
+          done = true;
+        } else if (event.event === 'error') {
+          reject(new Error(event.data || 'RAG stream error'));
+        } else if (event.event === 'sources') {
+          onSources(parseSources(safeJsonParse(event.data)));
+        } else {
+          const parsed = safeJsonParse(event.data);
+          if (Array.isArray(parsed?.sources)) {
+            onSources(parseSources(parsed.sources));
+          }
+          emit(extractAnswerText(event.data, parsed));
         }
-        if (error.response?.status === 404) {
-          return 'The RAG service is currently unavailable. Please try again later or contact TazaPay support.';
+      });
+
+      body.setEncoding('utf8');
+      body.on('data', (chunk: string) => {
+        if (isSse) {
+          parser.feed(chunk);
+        } else if (isJson) {
+          json += chunk;
+        } else {
+          emit(chunk);
         }
-        if (error.response?.status === 429) {
-          return 'Too many requests. Please wait a moment and try again.';
+      });
+      body.on('end', () => {
+        try {
+          if (isSse) {
+            parser.end();
+          } else if (isJson) {
+            const parsed = JSON.parse(json);
+            onSources(parseSources(parsed.sources));
+            emit(parsed.answer || '');
+          }
+          resolve();
+        } catch (error) {
+          reject(error);
         }
-      }
-      
-      return 'I encountered an error while processing your question. Please try again or contact TazaPay support for assistance.';
-    }
+      });
+      body.on('error', reject);
+    });
   }
 
   /**
@@ -95,4 +330,95 @@ Try asking me things like:
 
 What would you like to know about TazaPay?`;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Extract the answer text from one streamed event
+ * Events may carry plain text or JSON with a `delta`, `token`, `text` or `answer` field
+ * @param data - Event payload
+ * @param parsed - Payload parsed as JSON (undefined if it isn't JSON)
+ * @returns string - Answer text contained in the event
+ */
+function extractAnswerText(data: string, parsed: any): string {
+  if (typeof parsed === 'string') {
+    return parsed;
+  }
+  if (parsed && typeof parsed === 'object') {
+    const text = parsed.delta ?? parsed.token ?? parsed.text ?? parsed.answer;
+    return typeof text === 'string' ? text : '';
+  }
+  // Not JSON - the event carries plain text
+  return data;
+}
+
+/**
+ * Parse JSON, returning undefined instead of throwing
+ */
+function safeJsonParse(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize the source documents returned by the RAG service
+ * Accepts `url`/`link`, `title`/`name` and `section`/`heading` field names and drops entries without a URL
+ * @param raw - `sources` value from the response
+ * @returns RAGSource[] - Sources sorted by score, most relevant first
+ */
+export function parseSources(raw: any): RAGSource[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter(source => source && typeof (source.url ?? source.link) === 'string')
+    .map(source => ({
+      url: source.url ?? source.link,
+      title: source.title || source.name || source.url || source.link,
+      section: source.section || source.heading || undefined,
+      score: typeof source.score === 'number' ? source.score : undefined
+    }))
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+/**
+ * Format a list of sources as a markdown "Sources" section
+ * @param sources - Sources to list
+ * @returns string - Markdown section (empty when there are no sources)
+ */
+export function formatSourcesMarkdown(sources: RAGSource[]): string {
+  if (sources.length === 0) {
+    return '';
+  }
+  const lines = sources.map(source => {
+    const label = source.section ? `${source.title} › ${source.section}` : source.title;
+    const score = source.score !== undefined ? ` (relevance ${source.score.toFixed(2)})` : '';
+    return `- [${label}](${source.url})${score}`;
+  });
+  return `## Sources\n\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Turn a failed RAG request into a user-facing message
+ * @param error - Typed error from the HTTP client
+ * @returns string - Explanation to show instead of an answer
+ */
+function describeQueryError(error: TazaPayApiError): string {
+  // Provide specific error messages based on failure type
+  if (error instanceof NetworkError && error.timedOut) {
+    return 'The request timed out. Please try again or contact TazaPay support.';
+  }
+  if (error.status === 404) {
+    return 'The RAG service is currently unavailable. Please try again later or contact TazaPay support.';
+  }
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs !== undefined
+      ? `Too many requests. Please wait ${Math.ceil(error.retryAfterMs / 1000)} seconds and try again.`
+      : 'Too many requests. Please wait a moment and try again.';
+  }
+
+  return 'I encountered an error while processing your question. Please try again or contact TazaPay support for assistance.';
+}
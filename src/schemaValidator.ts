@@ -0,0 +1,278 @@
+/**
+ * Tool Parameter Validation
+ *
+ * This module validates tool parameters against the tool's `parameters` JSON Schema on the
+ * client, so missing or malformed fields are reported per field before any request is sent.
+ *
+ * Supported keywords:
+ * - type, required, enum, const, format
+ * - minLength/maxLength, pattern, minimum/maximum, exclusiveMinimum/exclusiveMaximum, multipleOf
+ * - properties, additionalProperties, items, minItems/maxItems, uniqueItems
+ * - allOf/anyOf/oneOf and local $ref
+ */
+
+/**
+ * A single validation failure
+ */
+export interface ValidationIssue {
+  path: string;     // Field path, e.g. "customer.address.country" or "items[0].amount" ("" for the root)
+  message: string;  // Human-readable description of the problem
+}
+
+/**
+ * Error thrown when tool parameters do not match the tool's schema
+ * The request is never sent when this error is thrown
+ */
+export class ParameterValidationError extends Error {
+  /**
+   * @param toolName - Tool whose parameters failed validation
+   * @param issues - Every validation failure, one per field path
+   */
+  constructor(public readonly toolName: string, public readonly issues: ValidationIssue[]) {
+    super(`Invalid parameters for ${toolName}:\n${formatValidationIssues(issues)}`);
+    this.name = 'ParameterValidationError';
+  }
+}
+
+// Patterns for the string formats commonly used in TazaPay schemas
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'uri': value => isUrl(value),
+  'url': value => isUrl(value),
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !isNaN(Date.parse(value)),
+  'time': value => /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/i.test(value),
+  'uuid': value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'ipv4': value => /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/.test(value),
+  'hostname': value => /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i.test(value)
+};
+
+/**
+ * Validate a value against a JSON Schema
+ * @param schema - JSON Schema (typically MCPTool.parameters)
+ * @param value - Parameters to validate
+ * @returns ValidationIssue[] - Every problem found (empty if the value is valid)
+ */
+export function validateParameters(schema: any, value: any): ValidationIssue[] {
+  if (!schema || typeof schema !== 'object') {
+    return []; // No schema - nothing to check
+  }
+  const issues: ValidationIssue[] = [];
+  validateValue(schema, value, '', schema, issues);
+  return issues;
+}
+
+/**
+ * Format validation issues as one line per field
+ * @param issues - Issues returned by validateParameters
+ * @returns string - e.g. "- amount: must be >= 1"
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+}
+
+function validateValue(rawSchema: any, value: any, path: string, root: any, issues: ValidationIssue[]): void {
+  const schema = resolveRef(rawSchema, root);
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach((subSchema: any) => validateValue(subSchema, value, path, root, issues));
+  }
+  if (schema.anyOf && !schema.anyOf.some((subSchema: any) => isValid(subSchema, value, root))) {
+    issues.push({ path, message: 'does not match any of the allowed shapes' });
+    return;
+  }
+  if (schema.oneOf && schema.oneOf.filter((subSchema: any) => isValid(subSchema, value, root)).length !== 1) {
+    issues.push({ path, message: 'must match exactly one of the allowed shapes' });
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const allowed: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(type, value))) {
+      issues.push({ path, message: `must be ${allowed.join(' or ')}, got ${describeType(value)}` });
+      return; // Further checks would only repeat the type error
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    issues.push({ path, message: `must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    validateString(schema, value, path, issues);
+  } else if (typeof value === 'number') {
+    validateNumber(schema, value, path, issues);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, root, issues);
+  } else if (value !== null && typeof value === 'object') {
+    validateObject(schema, value, path, root, issues);
+  }
+}
+
+function validateString(schema: any, value: string, path: string, issues: ValidationIssue[]): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) {
+        issues.push({ path, message: `must match pattern ${schema.pattern}` });
+      }
+    } catch {
+      // Patterns JavaScript cannot compile are left to the server
+    }
+  }
+  const formatCheck = schema.format ? FORMAT_CHECKS[schema.format] : undefined;
+  if (formatCheck && !formatCheck(value)) {
+    issues.push({ path, message: `must be a valid ${schema.format}` });
+  }
+}
+
+function validateNumber(schema: any, value: number, path: string, issues: ValidationIssue[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  // Draft 4 uses booleans for exclusive bounds, later drafts use numbers
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  } else if (schema.exclusiveMinimum === true && schema.minimum !== undefined && value === schema.minimum) {
+    issues.push({ path, message: `must be > ${schema.minimum}` });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    issues.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  } else if (schema.exclusiveMaximum === true && schema.maximum !== undefined && value === schema.maximum) {
+    issues.push({ path, message: `must be < ${schema.maximum}` });
+  }
+  if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      issues.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+  }
+}
+
+function validateArray(schema: any, value: any[], path: string, root: any, issues: ValidationIssue[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ path, message: `must contain at most ${schema.maxItems} item(s)` });
+  }
+  if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => deepEqual(other, item)) !== index)) {
+    issues.push({ path, message: 'must not contain duplicate items' });
+  }
+  if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+    value.forEach((item, index) => validateValue(schema.items, item, `${path}[${index}]`, root, issues));
+  }
+}
+
+function validateObject(schema: any, value: Record<string, any>, path: string, root: any, issues: ValidationIssue[]): void {
+  const properties: Record<string, any> = schema.properties || {};
+
+  for (const name of schema.required || []) {
+    if (value[name] === undefined) {
+      issues.push({ path: joinPath(path, name), message: 'is required' });
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) {
+      continue;
+    }
+    const propertyPath = joinPath(path, name);
+    if (properties[name] !== undefined) {
+      validateValue(properties[name], propertyValue, propertyPath, root, issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: propertyPath, message: 'is not an allowed property' });
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      validateValue(schema.additionalProperties, propertyValue, propertyPath, root, issues);
+    }
+  }
+}
+
+function isValid(schema: any, value: any, root: any): boolean {
+  const issues: ValidationIssue[] = [];
+  validateValue(schema, value, '', root, issues);
+  return issues.length === 0;
+}
+
+/**
+ * Follow local `$ref` pointers (`#/...`) until a concrete schema is reached
+ * @param schema - Schema that may be a reference
+ * @param root - Root schema the pointers are resolved against
+ * @returns The referenced schema ({} for remote references)
+ */
+export function resolveRef(schema: any, root: any): any {
+  let current = schema;
+  for (let depth = 0; current && typeof current.$ref === 'string' && depth < 10; depth++) {
+    if (!current.$ref.startsWith('#')) {
+      return {}; // Remote references are not resolved
+    }
+    current = current.$ref
+      .replace(/^#\/?/, '')
+      .split('/')
+      .filter((part: string) => part)
+      .reduce((target: any, part: string) => target?.[part.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+  }
+  return current;
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (value === undefined) {
+    return 'nothing';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
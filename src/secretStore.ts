@@ -0,0 +1,148 @@
+/**
+ * TazaPay Secret Key Store
+ *
+ * This module keeps the TazaPay secret keys in VS Code's SecretStorage (OS keychain backed)
+ * instead of the plaintext `tazapay-mcp.secretKey` setting, which would otherwise end up in
+ * settings.json and be synced by Settings Sync.
+ *
+ * Features:
+ * - Single source of truth for reading, saving and deleting secret keys
+ * - One key per environment profile, scoped to the active environment by default
+ * - One-time migration of plaintext keys out of user settings; keys in workspace settings are only imported when the user agrees
+ * - Change notifications when a key is updated from any window
+ */
+
+import * as vscode from 'vscode';
+
+// SecretStorage key used before keys were scoped per environment
+const LEGACY_SECRET_KEY_ID = 'tazapay-mcp.secretKey';
+
+// Prefix of the per-environment SecretStorage keys
+const SECRET_KEY_PREFIX = 'tazapay-mcp.secretKey.';
+
+/**
+ * Wrapper around `context.secrets` for the TazaPay secret keys
+ * All authentication flows read and write keys through this class
+ */
+export class SecretKeyStore {
+  // Fires whenever a stored secret key changes (including from other VS Code windows)
+  readonly onDidChange: vscode.Event<void>;
+
+  /**
+   * Create a store backed by the extension's SecretStorage
+   * @param secrets - SecretStorage instance from the extension context
+   * @param getActiveEnvironment - Returns the name of the environment keys are scoped to by default
+   */
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly getActiveEnvironment: () => string
+  ) {
+    this.onDidChange = (listener, thisArgs?, disposables?) =>
+      this.secrets.onDidChange(e => {
+        if (e.key.startsWith(SECRET_KEY_PREFIX)) {
+          listener.call(thisArgs);
+        }
+      }, undefined, disposables);
+  }
+
+  /**
+   * Read a stored secret key
+   * @param environment - Environment name (defaults to the active environment)
+   * @returns Promise<string | undefined> - The secret key, or undefined if none is saved
+   */
+  async get(environment?: string): Promise<string | undefined> {
+    return this.secrets.get(this.keyId(environment));
+  }
+
+  /**
+   * Save a secret key in secure storage
+   * @param secretKey - Secret key from the TazaPay dashboard
+   * @param environment - Environment name (defaults to the active environment)
+   */
+  async store(secretKey: string, environment?: string): Promise<void> {
+    await this.secrets.store(this.keyId(environment), secretKey);
+  }
+
+  /**
+   * Remove a secret key from secure storage
+   * @param environment - Environment name (defaults to the active environment)
+   */
+  async delete(environment?: string): Promise<void> {
+    await this.secrets.delete(this.keyId(environment));
+  }
+
+  /**
+   * Move older keys into the active environment's slot
+   * Handles plaintext keys in the user's `tazapay-mcp.secretKey` setting and the unscoped secure key.
+   * The user setting is cleared, so it no longer syncs. Keys in workspace settings are left to
+   * importFromWorkspaceSettings, since they may come from a cloned repository
+   * @returns Promise<boolean> - true if a plaintext key was found and migrated
+   */
+  async migrateFromSettings(): Promise<boolean> {
+    const legacySecureKey = await this.secrets.get(LEGACY_SECRET_KEY_ID);
+    if (legacySecureKey) {
+      if (!(await this.get())) {
+        await this.store(legacySecureKey);
+      }
+      await this.secrets.delete(LEGACY_SECRET_KEY_ID);
+    }
+
+    const config = vscode.workspace.getConfiguration('tazapay-mcp');
+    const plaintextKey = config.inspect<string>('secretKey')?.globalValue;
+    if (!plaintextKey) {
+      return false;
+    }
+
+    // Never overwrite a key the user has already saved securely
+    if (!(await this.get())) {
+      await this.store(plaintextKey);
+    }
+    await config.update('secretKey', undefined, vscode.ConfigurationTarget.Global);
+    return true;
+  }
+
+  /**
+   * Offer to import a plaintext key found in workspace or folder settings
+   * Nothing is imported without asking, and only when no key is saved for the active environment.
+   * An imported key is removed from the workspace settings
+   * @returns Promise<boolean> - true if the user imported the key
+   */
+  async importFromWorkspaceSettings(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('tazapay-mcp');
+    const sources = [
+      { config, target: vscode.ConfigurationTarget.Workspace, value: config.inspect<string>('secretKey')?.workspaceValue },
+      ...(vscode.workspace.workspaceFolders || []).map(folder => {
+        const folderConfig = vscode.workspace.getConfiguration('tazapay-mcp', folder.uri);
+        return {
+          config: folderConfig,
+          target: vscode.ConfigurationTarget.WorkspaceFolder,
+          value: folderConfig.inspect<string>('secretKey')?.workspaceFolderValue
+        };
+      })
+    ].filter(source => source.value);
+
+    if (sources.length === 0 || await this.get()) {
+      return false;
+    }
+
+    const action = await vscode.window.showWarningMessage(
+      'This workspace\'s settings contain a TazaPay secret key (tazapay-mcp.secretKey). Workspace settings can be committed to a repository, ' +
+      'so the key may not be yours. Import it into secure storage and remove it from the workspace settings?',
+      'Import Key',
+      'Ignore'
+    );
+    if (action !== 'Import Key') {
+      return false;
+    }
+
+    await this.store(sources[0].value!);
+    for (const source of sources) {
+      await source.config.update('secretKey', undefined, source.target);
+    }
+    return true;
+  }
+
+  private keyId(environment?: string): string {
+    return SECRET_KEY_PREFIX + (environment || this.getActiveEnvironment());
+  }
+}
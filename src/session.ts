@@ -0,0 +1,354 @@
+/**
+ * TazaPay Session
+ *
+ * This module owns the connection to the TazaPay MCP server for the active environment.
+ * It signs in with the stored secret key (silently on startup and after environment switches),
+ * publishes every connection state change, and periodically checks that the key still works,
+ * so the context key, views and status bar never claim a connection that doesn't exist.
+ *
+ * Features:
+ * - Single source of truth for the connected MCPClient and its tools
+ * - Silent re-authentication from the stored key on startup and environment switches
+ * - `tazapay-mcp.authenticated` context key and status bar indicator kept in sync with the state
+ * - Periodic health check detecting expired or revoked keys (`tazapay-mcp.session.healthCheckIntervalMinutes`)
+ */
+
+import * as vscode from 'vscode';
+import { AnswerCache } from './answerCache';
+import { EnvironmentManager } from './environments';
+import { AuthenticationError, CancelledError, describeError } from './errors';
+import { MCPClient, MCPTool } from './mcpClient';
+import { SecretKeyStore } from './secretStore';
+
+/**
+ * Connection state of the session
+ */
+export type SessionState =
+  | 'signedOut'     // No secret key stored for the active environment
+  | 'connecting'    // Authenticating and fetching tools
+  | 'connected'     // Authenticated, tools loaded
+  | 'unauthorized'  // The stored key was rejected (wrong, expired or revoked)
+  | 'offline';      // The server couldn't be reached or failed; retried by the health check
+
+/**
+ * Snapshot published on every state change
+ */
+export interface SessionStatus {
+  state: SessionState;
+  environment: string;  // Name of the environment the state refers to
+  toolCount: number;    // Number of discovered tools (0 unless connected)
+  error?: string;       // Why the session is unauthorized or offline
+  checkedAt?: number;   // Last successful sign-in or health check (ms since epoch)
+}
+
+/**
+ * Connection to the TazaPay MCP server for the active environment
+ */
+export class TazaPaySession implements vscode.Disposable {
+  // Fires whenever the state, tools or last check time change
+  private _onDidChangeState = new vscode.EventEmitter<SessionStatus>();
+  readonly onDidChangeState: vscode.Event<SessionStatus> = this._onDidChangeState.event;
+
+  private _client: MCPClient | null = null;  // Client of the current session (null unless connected or offline)
+  private clientKey: string | undefined;     // Secret key the client signed in with
+  private status: SessionStatus;
+  private rejectedKey: string | undefined;   // Key the server last rejected, so it isn't retried silently
+  private connectAttempt = 0;                 // Incremented by every sign-in; stale attempts are discarded
+  private checking = false;                   // Health check in progress
+  private healthTimer: NodeJS.Timeout | undefined;
+  private statusBarItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param secretKeyStore - Stored secret keys (one per environment)
+   * @param environments - Environment profiles; switching profile reconnects the session
+   * @param answerCache - Cache for documentation answers, handed to the client
+   */
+  constructor(
+    private readonly secretKeyStore: SecretKeyStore,
+    private readonly environments: EnvironmentManager,
+    private readonly answerCache?: AnswerCache
+  ) {
+    this.status = { state: 'signedOut', environment: environments.getActive().name, toolCount: 0 };
+
+    // Placed right of the environment switcher
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+
+    this.disposables.push(
+      this._onDidChangeState,
+      this.statusBarItem,
+      environments.onDidChangeEnvironment(() => {
+        this.connect().catch(error => console.error('Failed to reconnect after environment change:', error));
+      }),
+      secretKeyStore.onDidChange(async () => {
+        // A deleted key ends the session, from this window or any other
+        if (this.status.state !== 'signedOut' && !(await this.secretKeyStore.get())) {
+          await this.signOut();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('tazapay-mcp.session.healthCheckIntervalMinutes')) {
+          this.scheduleHealthCheck();
+        }
+      })
+    );
+
+    this.publish();
+    this.statusBarItem.show();
+    this.scheduleHealthCheck();
+  }
+
+  /**
+   * Client of the current session, or null when not connected
+   */
+  get client(): MCPClient | null {
+    return this.status.state === 'connected' ? this._client : null;
+  }
+
+  /**
+   * Current state snapshot
+   */
+  getStatus(): SessionStatus {
+    return this.status;
+  }
+
+  /**
+   * Tools discovered by the current session (empty when not connected)
+   */
+  getTools(): MCPTool[] {
+    return this.client?.getAvailableTools() ?? [];
+  }
+
+  /**
+   * Check whether a key is the one the server last rejected
+   * @param secretKey - Stored key
+   */
+  isRejected(secretKey: string): boolean {
+    return secretKey === this.rejectedKey;
+  }
+
+  /**
+   * Sign in to the active environment with its stored key and fetch its tools
+   * Replaces any existing session; the outcome is published and returned rather than thrown
+   * @param signal - Cancels the sign-in (optional)
+   * @returns Promise<SessionStatus> - State after the attempt
+   * @throws CancelledError if the signal aborted
+   */
+  async connect(signal?: AbortSignal): Promise<SessionStatus> {
+    const attempt = ++this.connectAttempt;
+    const environment = this.environments.getActive();
+    await this.closeClient();
+
+    const secretKey = await this.secretKeyStore.get(environment.name);
+    if (attempt !== this.connectAttempt) {
+      return this.status;
+    }
+    if (!secretKey) {
+      return this.setStatus({ state: 'signedOut', environment: environment.name, toolCount: 0 });
+    }
+
+    this.setStatus({ state: 'connecting', environment: environment.name, toolCount: 0 });
+    const client = new MCPClient(environment.serverUrl, secretKey, undefined, this.answerCache);
+    try {
+      const authenticated = await client.authenticate(signal);
+      const tools = authenticated ? await client.getTools(signal) : [];
+      if (attempt !== this.connectAttempt) {
+        await client.dispose();  // Superseded by a newer sign-in
+        return this.status;
+      }
+      if (!authenticated) {
+        await client.dispose();
+        return this.reject(secretKey, 'The secret key was rejected');
+      }
+
+      this._client = client;
+      this.clientKey = secretKey;
+      this.rejectedKey = undefined;
+      return this.setStatus({ state: 'connected', environment: environment.name, toolCount: tools.length, checkedAt: Date.now() });
+    } catch (error) {
+      await client.dispose();
+      if (attempt !== this.connectAttempt) {
+        return this.status;
+      }
+      if (error instanceof CancelledError) {
+        this.setStatus({ state: 'signedOut', environment: environment.name, toolCount: 0 });
+        throw error;
+      }
+      if (error instanceof AuthenticationError) {
+        return this.reject(secretKey, error.message);
+      }
+      return this.setStatus({ state: 'offline', environment: environment.name, toolCount: 0, error: describeError(error) });
+    }
+  }
+
+  /**
+   * End the session (the stored key is kept)
+   */
+  async signOut(): Promise<void> {
+    this.connectAttempt++;
+    await this.closeClient();
+    this.setStatus({ state: 'signedOut', environment: this.environments.getActive().name, toolCount: 0 });
+  }
+
+  /**
+   * Fetch the tool list again
+   * @param signal - Cancels the request (optional)
+   * @returns Promise<MCPTool[]> - The discovered tools
+   * @throws Error if not connected; AuthenticationError also moves the session to "unauthorized"
+   */
+  async refreshTools(signal?: AbortSignal): Promise<MCPTool[]> {
+    const client = this.client;
+    if (!client) {
+      throw new Error('Not authenticated');
+    }
+    try {
+      const tools = await client.getTools(signal);
+      this.setStatus({ ...this.status, toolCount: tools.length, checkedAt: Date.now() });
+      return tools;
+    } catch (error) {
+      if (error instanceof AuthenticationError && client === this._client) {
+        const secretKey = this.clientKey!;
+        await this.closeClient();
+        this.reject(secretKey, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Verify the session now: a connected session re-lists its tools (detecting rejected keys),
+   * an offline one tries to sign in again
+   * @param signal - Cancels the check (optional)
+   * @returns Promise<SessionStatus> - State after the check
+   */
+  async checkHealth(signal?: AbortSignal): Promise<SessionStatus> {
+    if (this.checking) {
+      return this.status;
+    }
+
+    this.checking = true;
+    try {
+      if (this.status.state === 'offline') {
+        return await this.connect(signal);
+      }
+      if (this.status.state === 'connected') {
+        try {
+          await this.refreshTools(signal);
+        } catch (error) {
+          if (error instanceof CancelledError) {
+            throw error;
+          }
+          if (!(error instanceof AuthenticationError) && this.status.state === 'connected') {
+            this.setStatus({ ...this.status, state: 'offline', toolCount: 0, error: describeError(error) });
+          }
+        }
+      }
+      return this.status;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  dispose(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+    }
+    this.connectAttempt++;
+    this.closeClient().catch(error => console.error('Failed to close the MCP session:', error));
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Record a rejected key and tell the user their key needs replacing
+   */
+  private reject(secretKey: string, reason: string): SessionStatus {
+    const wasConnected = this.status.state === 'connected';
+    this.rejectedKey = secretKey;
+    const status = this.setStatus({ state: 'unauthorized', environment: this.environments.getActive().name, toolCount: 0, error: reason });
+
+    // A key that stops working mid-session has expired or been revoked
+    if (wasConnected) {
+      vscode.window.showWarningMessage(
+        `TazaPay no longer accepts the secret key for ${status.environment} (${reason}). It may have expired or been revoked.`,
+        'Enter New Key'
+      ).then(action => {
+        if (action === 'Enter New Key') {
+          vscode.commands.executeCommand('tazapay-mcp.authenticate');
+        }
+      });
+    }
+    return status;
+  }
+
+  private async closeClient(): Promise<void> {
+    const client = this._client;
+    this._client = null;
+    this.clientKey = undefined;
+    await client?.dispose();
+  }
+
+  private setStatus(status: SessionStatus): SessionStatus {
+    this.status = status;
+    this.publish();
+    this._onDidChangeState.fire(status);
+    return status;
+  }
+
+  /**
+   * Reflect the state in the context key and status bar
+   */
+  private publish(): void {
+    const { state, environment, toolCount, error, checkedAt } = this.status;
+    vscode.commands.executeCommand('setContext', 'tazapay-mcp.authenticated', state === 'connected');
+
+    const checked = checkedAt ? `\nLast checked ${new Date(checkedAt).toLocaleTimeString()}` : '';
+    const item = this.statusBarItem;
+    item.backgroundColor = undefined;
+    switch (state) {
+      case 'connected':
+        item.text = '$(pass-filled) TazaPay MCP';
+        item.tooltip = `Connected to ${environment} · ${toolCount} ${toolCount === 1 ? 'tool' : 'tools'}${checked}\nClick to check the connection`;
+        item.command = 'tazapay-mcp.checkConnection';
+        break;
+      case 'connecting':
+        item.text = '$(sync~spin) TazaPay MCP';
+        item.tooltip = `Connecting to ${environment}...`;
+        item.command = undefined;
+        break;
+      case 'unauthorized':
+        item.text = '$(error) TazaPay MCP';
+        item.tooltip = `${environment}: the secret key was rejected (${error}).\nClick to enter a new key`;
+        item.command = 'tazapay-mcp.authenticate';
+        item.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+        break;
+      case 'offline':
+        item.text = '$(warning) TazaPay MCP';
+        item.tooltip = `${environment}: ${error}\nClick to retry`;
+        item.command = 'tazapay-mcp.checkConnection';
+        item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        break;
+      default:
+        item.text = '$(debug-disconnect) TazaPay MCP';
+        item.tooltip = `Not signed in to ${environment}. Click to authenticate`;
+        item.command = 'tazapay-mcp.authenticate';
+    }
+  }
+
+  /**
+   * (Re)start the periodic health check from the configured interval
+   */
+  private scheduleHealthCheck(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+
+    const minutes = vscode.workspace.getConfiguration('tazapay-mcp').get<number>('session.healthCheckIntervalMinutes', 5);
+    if (minutes > 0) {
+      this.healthTimer = setInterval(() => {
+        this.checkHealth().catch(error => console.error('TazaPay health check failed:', error));
+      }, minutes * 60 * 1000);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Incremental parser for `text/event-stream` bodies. Chunks can be fed in as they arrive
+ * from the network and complete events are emitted as soon as their terminating blank
+ * line has been received.
+ */
+
+/**
+ * A single event received from an SSE stream
+ */
+export interface SseEvent {
+  event: string;  // Event type (defaults to "message")
+  data: string;   // Event payload, multiple data lines joined with "\n"
+  id?: string;    // Optional event id
+}
+
+/**
+ * Incremental SSE parser
+ * Buffers partial lines between chunks and invokes the callback once per complete event
+ */
+export class SseParser {
+  private buffer = '';             // Unterminated text from the previous chunk
+  private eventType = '';          // Event type of the event being assembled
+  private dataLines: string[] = []; // Data lines of the event being assembled
+  private eventId?: string;        // Id of the event being assembled
+
+  /**
+   * @param onEvent - Called for every complete event in the stream
+   */
+  constructor(private readonly onEvent: (event: SseEvent) => void) {}
+
+  /**
+   * Feed a chunk of the response body into the parser
+   * @param chunk - Raw text received from the stream
+   */
+  feed(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    // The last element is either empty or an unterminated line - keep it for the next chunk
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  /**
+   * Flush any buffered event when the stream ends without a trailing blank line
+   */
+  end(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer);
+      this.buffer = '';
+    }
+    this.dispatch();
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return; // Comment / keep-alive
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.substring(0, separator);
+    let value = separator === -1 ? '' : line.substring(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.eventId = value;
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.dataLines.length > 0) {
+      this.onEvent({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.eventId
+      });
+    }
+    this.eventType = '';
+    this.dataLines = [];
+    this.eventId = undefined;
+  }
+}
+
+/**
+ * Parse a complete SSE body into its events
+ * @param body - Full `text/event-stream` response text
+ * @returns SseEvent[] - All events contained in the body
+ */
+export function parseSseBody(body: string): SseEvent[] {
+  const events: SseEvent[] = [];
+  const parser = new SseParser(event => events.push(event));
+  parser.feed(body);
+  parser.end();
+  return events;
+}
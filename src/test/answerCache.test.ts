@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { AnswerCache } from '../answerCache';
+import { RAGAnswer } from '../ragClient';
+import { createExtensionContext, stubConfiguration } from './helpers';
+
+const HOUR = 60 * 60 * 1000;
+const SANDBOX = 'https://rag.sandbox.example.com';
+const PRODUCTION = 'https://rag.example.com';
+
+const answer: RAGAnswer = { answer: 'Use the Checkout API.', sources: [{ url: 'https://docs.example.com/checkout', title: 'Checkout' }] };
+
+suite('Answer Cache Test Suite', () => {
+	const realNow = Date.now;
+	let now: number;
+	let settings: Record<string, any>;
+	let restoreConfiguration: () => void;
+	let cache: AnswerCache;
+
+	setup(() => {
+		now = realNow();
+		Date.now = () => now;
+		settings = {};
+		restoreConfiguration = stubConfiguration(settings);
+		cache = new AnswerCache(createExtensionContext());
+	});
+
+	teardown(() => {
+		Date.now = realNow;
+		restoreConfiguration();
+	});
+
+	test('returns cached answers marked as cached', async () => {
+		await cache.set('How do I create a checkout?', SANDBOX, answer);
+		assert.deepStrictEqual(cache.get('How do I create a checkout?', SANDBOX), { ...answer, cached: true });
+	});
+
+	test('ignores case, extra whitespace, trailing punctuation and trailing slashes', async () => {
+		await cache.set('How do I create a checkout?', SANDBOX, answer);
+		assert.ok(cache.get('  how do I   create a CHECKOUT  ', `${SANDBOX}/`));
+		assert.strictEqual(cache.get('How do I cancel a checkout?', SANDBOX), undefined);
+	});
+
+	test('keeps answers for different URLs apart', async () => {
+		await cache.set('What are payouts?', SANDBOX, answer);
+		assert.strictEqual(cache.get('What are payouts?', PRODUCTION), undefined);
+	});
+
+	test('expires answers after the configured time-to-live', async () => {
+		settings['answerCache.ttlHours'] = 2;
+		await cache.set('What are payouts?', SANDBOX, answer);
+
+		now += 2 * HOUR;
+		assert.ok(cache.get('What are payouts?', SANDBOX));
+		now += 1;
+		assert.strictEqual(cache.get('What are payouts?', SANDBOX), undefined);
+	});
+
+	test('stores and returns nothing when the time-to-live is 0', async () => {
+		await cache.set('What are payouts?', SANDBOX, answer);
+		settings['answerCache.ttlHours'] = 0;
+		assert.strictEqual(cache.get('What are payouts?', SANDBOX), undefined);
+
+		await cache.set('What is escrow?', SANDBOX, answer);
+		delete settings['answerCache.ttlHours'];
+		assert.strictEqual(cache.get('What is escrow?', SANDBOX), undefined);
+	});
+
+	test('drops answers for other URLs when the scope changes', async () => {
+		await cache.set('What are payouts?', SANDBOX, answer);
+		await cache.set('What are payouts?', PRODUCTION, answer);
+
+		await cache.retainScopes([`${PRODUCTION}/`]);
+		assert.strictEqual(cache.get('What are payouts?', SANDBOX), undefined);
+		assert.ok(cache.get('What are payouts?', PRODUCTION));
+	});
+
+	test('clears every answer and reports how many were removed', async () => {
+		await cache.set('What are payouts?', SANDBOX, answer);
+		await cache.set('What is escrow?', PRODUCTION, answer);
+		assert.strictEqual(await cache.clear(), 2);
+		assert.strictEqual(cache.get('What are payouts?', SANDBOX), undefined);
+	});
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { resolveOutputPath } from '../clientGenerator';
+
+suite('Client Generator Test Suite', () => {
+	test('resolves output paths relative to the workspace folder', () => {
+		assert.deepStrictEqual(resolveOutputPath('src/tazapay/tazapayClient.ts'), ['src', 'tazapay', 'tazapayClient.ts']);
+		assert.deepStrictEqual(resolveOutputPath('./src//generated/../client.ts'), ['src', 'client.ts']);
+		assert.deepStrictEqual(resolveOutputPath('src\\tazapay\\client.ts'), ['src', 'tazapay', 'client.ts']);
+	});
+
+	test('rejects absolute paths and paths leaving the folder', () => {
+		assert.strictEqual(resolveOutputPath('/etc/profile.d/tazapay.ts'), undefined);
+		assert.strictEqual(resolveOutputPath('C:\\Users\\me\\client.ts'), undefined);
+		assert.strictEqual(resolveOutputPath('\\\\server\\share\\client.ts'), undefined);
+		assert.strictEqual(resolveOutputPath('../other-project/client.ts'), undefined);
+		assert.strictEqual(resolveOutputPath('src/../../client.ts'), undefined);
+		assert.strictEqual(resolveOutputPath('.'), undefined);
+		assert.strictEqual(resolveOutputPath(''), undefined);
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { generateIntegrationCode, languageForEditor, toCamelCase, toPascalCase, unsupportedTransportMessage } from '../codeGenerator';
+import { MCPTool } from '../mcpClient';
+
+const SERVER_URL = 'https://sandbox.example.com';
+
+const tool: MCPTool = {
+	name: 'create-payment',
+	description: 'Create a payment */ for a buyer',
+	parameters: {
+		type: 'object',
+		required: ['amount', 'class'],
+		properties: {
+			amount: { type: 'integer', minimum: 100, description: 'Amount in cents */' },
+			class: { type: 'string', enum: ['goods', 'services'] },
+			customer_email: { type: 'string', format: 'email' }
+		}
+	}
+};
+
+suite('Code Generator Test Suite', () => {
+	test('converts tool and field names', () => {
+		assert.strictEqual(toPascalCase('create-payment'), 'CreatePayment');
+		assert.strictEqual(toPascalCase('customer_email'), 'CustomerEmail');
+		assert.strictEqual(toPascalCase('3ds'), '_3ds');
+		assert.strictEqual(toCamelCase('create_payout'), 'createPayout');
+	});
+
+	test('picks the language of the active editor', () => {
+		assert.strictEqual(languageForEditor('typescriptreact'), 'typescript');
+		assert.strictEqual(languageForEditor('python'), 'python');
+		assert.strictEqual(languageForEditor('rust'), undefined);
+		assert.strictEqual(languageForEditor(undefined), undefined);
+	});
+
+	test('only generates code for the REST transport', () => {
+		assert.strictEqual(unsupportedTransportMessage('rest'), undefined);
+		for (const transport of ['streamableHttp', 'sse', 'stdio'] as const) {
+			assert.ok(unsupportedTransportMessage(transport)?.includes(`reached over MCP (${transport})`));
+		}
+	});
+
+	test('generates a TypeScript request type and function', () => {
+		const code = generateIntegrationCode(tool, 'typescript', SERVER_URL);
+		assert.ok(code.includes('export interface CreatePaymentRequest {'));
+		assert.ok(code.includes("  class: 'goods' | 'services';"));
+		assert.ok(code.includes('  customer_email?: string;'));
+		assert.ok(code.includes('export async function createPayment(request: CreatePaymentRequest)'));
+		assert.ok(code.includes(`process.env.TAZAPAY_SERVER_URL ?? '${SERVER_URL}'`));
+		assert.ok(code.includes("process.env.TAZAPAY_SECRET_KEY ?? ''"));
+	});
+
+	test('escapes comment terminators in block comments only', () => {
+		const typeScript = generateIntegrationCode(tool, 'typescript', SERVER_URL);
+		assert.ok(typeScript.includes('/** Amount in cents *\\/ */'));
+		assert.ok(typeScript.includes('/** Create a payment *\\/ for a buyer */'));
+
+		const python = generateIntegrationCode(tool, 'python', SERVER_URL);
+		assert.ok(python.includes('"""Create a payment */ for a buyer"""'));
+		assert.ok(!python.includes('*\\/'));
+	});
+
+	test('avoids Python keywords and Java reserved accessors as field names', () => {
+		const python = generateIntegrationCode(tool, 'python', SERVER_URL);
+		assert.ok(python.includes('    class_: Literal["goods", "services"]'));
+		assert.ok(python.includes('"class": self.class_,'));
+
+		const java = generateIntegrationCode(tool, 'java', SERVER_URL);
+		assert.ok(java.includes('public String getClass_() {'));
+		assert.ok(!java.includes('getClass()'));
+		assert.ok(java.includes('@JsonProperty("class")'));
+	});
+
+	test('generates a cURL command with the required fields', () => {
+		const code = generateIntegrationCode(tool, 'curl', SERVER_URL);
+		assert.ok(code.includes(`"\${TAZAPAY_SERVER_URL:-${SERVER_URL}}/tools/create-payment"`));
+		assert.ok(code.includes('#   customer_email (string)'));
+		const payload = code.substring(code.indexOf("--data '") + "--data '".length, code.lastIndexOf("'"));
+		assert.deepStrictEqual(JSON.parse(payload), { amount: 100, class: 'goods' });
+	});
+});
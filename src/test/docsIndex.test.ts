@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DocsIndex, DocsSnapshot, parseSnapshot } from '../docsIndex';
+import { createExtensionContext } from './helpers';
+
+const snapshot: DocsSnapshot = {
+	version: '1',
+	generatedAt: '2026-01-15T00:00:00Z',
+	source: 'docs.example.com',
+	pages: [
+		{
+			url: 'https://docs.example.com/webhooks',
+			title: 'Webhooks',
+			sections: [
+				{ heading: 'Verifying signatures', anchor: 'verifying-signatures', text: 'Compute an HMAC of the raw body with your webhook secret and compare it with the signature header.' },
+				{ heading: 'Retries', anchor: 'retries', text: 'Failed deliveries are retried with exponential backoff for up to three days.' }
+			]
+		},
+		{
+			url: 'https://docs.example.com/payouts',
+			title: 'Payouts',
+			sections: [
+				{ heading: 'Creating a payout', text: 'Send the beneficiary, amount and currency. Payouts settle to the beneficiary bank account.' }
+			]
+		}
+	]
+};
+
+suite('Docs Index Test Suite', () => {
+	let storageDir: string;
+	let index: DocsIndex;
+
+	setup(async () => {
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tazapay-docs-'));
+		fs.writeFileSync(path.join(storageDir, 'tazapay-docs.json'), JSON.stringify(snapshot));
+
+		index = new DocsIndex(createExtensionContext(vscode.Uri.file(storageDir), vscode.Uri.file(path.join(storageDir, 'extension'))));
+		await index.initialize();
+	});
+
+	teardown(() => {
+		index.dispose();
+		fs.rmSync(storageDir, { recursive: true, force: true });
+	});
+
+	test('ranks the section matching the query first', () => {
+		const results = index.search('how do I verify webhook signatures?');
+		assert.ok(results.length > 0);
+		assert.strictEqual(results[0].section.heading, 'Verifying signatures');
+		assert.strictEqual(results[0].url, 'https://docs.example.com/webhooks#verifying-signatures');
+		assert.ok(results.every((result, i) => i === 0 || results[i - 1].score >= result.score));
+	});
+
+	test('weighs titles and headings above body text', () => {
+		const results = index.search('payout');
+		assert.strictEqual(results[0].page.title, 'Payouts');
+		assert.strictEqual(results[0].url, 'https://docs.example.com/payouts');
+	});
+
+	test('ignores stop words and limits the number of results', () => {
+		assert.deepStrictEqual(index.search('what is the'), []);
+		assert.strictEqual(index.search('webhook payout retries', 1).length, 1);
+	});
+
+	test('answers with excerpts citing the snapshot source', () => {
+		const answer = index.answer('webhook retries');
+		assert.ok(answer);
+		assert.strictEqual(answer.offline, true);
+		assert.ok(answer.answer.includes('offline documentation snapshot of docs.example.com'));
+		assert.ok(answer.answer.includes('### Webhooks › Retries'));
+		assert.strictEqual(answer.sources[0].url, 'https://docs.example.com/webhooks#retries');
+		assert.strictEqual(index.answer('kubernetes'), undefined);
+	});
+
+	test('falls back to the snapshot bundled with the extension', async () => {
+		const bundled = { ...snapshot, source: 'bundled.example.com' };
+		fs.mkdirSync(path.join(storageDir, 'extension', 'resources'), { recursive: true });
+		fs.writeFileSync(path.join(storageDir, 'extension', 'resources', 'tazapay-docs.json'), JSON.stringify(bundled));
+		fs.rmSync(path.join(storageDir, 'tazapay-docs.json'));
+
+		const bundledIndex = new DocsIndex(createExtensionContext(vscode.Uri.file(storageDir), vscode.Uri.file(path.join(storageDir, 'extension'))));
+		try {
+			assert.strictEqual(bundledIndex.available, false);
+			await bundledIndex.initialize();
+			assert.strictEqual(bundledIndex.available, true);
+			assert.ok(bundledIndex.answer('webhook retries')?.answer.includes('snapshot of bundled.example.com'));
+		} finally {
+			bundledIndex.dispose();
+		}
+	});
+
+	test('skips malformed sections', () => {
+		const parsed = parseSnapshot(JSON.stringify({
+			...snapshot,
+			pages: [{
+				url: 'https://docs.example.com/refunds',
+				title: 'Refunds',
+				sections: [
+					{ heading: 'Full refunds', text: 'Refund the whole amount.' },
+					{ heading: 'No text' },
+					{ text: 'No heading' },
+					{ heading: 'Bad anchor', anchor: 3, text: 'Anchor is not a string.' },
+					null
+				]
+			}]
+		}));
+		assert.deepStrictEqual(parsed?.pages[0].sections, [{ heading: 'Full refunds', text: 'Refund the whole amount.' }]);
+		assert.strictEqual(parseSnapshot(JSON.stringify({ pages: [{ url: 'https://docs.example.com' }] })), undefined);
+	});
+});
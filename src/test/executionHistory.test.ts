@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { EnvironmentProfile } from '../environments';
+import { ExecutionHistory } from '../executionHistory';
+import { createExtensionContext, stubConfiguration } from './helpers';
+
+const sandbox: EnvironmentProfile = { name: 'Sandbox', serverUrl: 'https://sandbox.example.com', ragUrl: '', live: false };
+const production: EnvironmentProfile = { name: 'Production', serverUrl: 'https://api.example.com', ragUrl: '', live: true };
+
+suite('Execution History Test Suite', () => {
+	let settings: Record<string, any>;
+	let restoreConfiguration: () => void;
+	let history: ExecutionHistory;
+
+	setup(() => {
+		settings = {};
+		restoreConfiguration = stubConfiguration(settings);
+		history = new ExecutionHistory(createExtensionContext());
+	});
+
+	teardown(() => {
+		history.dispose();
+		restoreConfiguration();
+	});
+
+	test('records parameters and responses of sandbox runs', async () => {
+		await history.track('get_payment', { id: 'pay_1' }, sandbox, async () => ({ success: true, data: { id: 'pay_1' } }));
+		const [record] = history.getAll();
+		assert.deepStrictEqual(record.parameters, { id: 'pay_1' });
+		assert.deepStrictEqual(record.response, { success: true, data: { id: 'pay_1' } });
+		assert.strictEqual(record.omitted, undefined);
+	});
+
+	test('leaves out live payloads unless enabled', async () => {
+		await history.track('create_payout', { amount: 1 }, production, async () => ({ success: true, data: { id: 'po_1' } }));
+		let [record] = history.getAll();
+		assert.strictEqual(record.status, 'success');
+		assert.strictEqual(record.parameters, undefined);
+		assert.strictEqual(record.response, undefined);
+		assert.ok(record.omitted?.includes('recordLivePayloads'));
+
+		settings['history.recordLivePayloads'] = true;
+		await history.track('create_payout', { amount: 2 }, production, async () => ({ success: true }));
+		[record] = history.getAll();
+		assert.deepStrictEqual(record.parameters, { amount: 2 });
+		assert.strictEqual(record.omitted, undefined);
+	});
+
+	test('leaves out oversized payloads but keeps the run', async () => {
+		const data = 'x'.repeat(100 * 1024);
+		await history.track('list_payments', { limit: 10 }, sandbox, async () => ({ success: true, data }));
+		const [record] = history.getAll();
+		assert.deepStrictEqual(record.parameters, { limit: 10 });
+		assert.strictEqual(record.response, undefined);
+		assert.ok(record.omitted?.startsWith('Response too large to record'));
+	});
+});
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+
+/**
+ * Replace the `tazapay-mcp` configuration with fixed values until the returned function is called
+ * Other sections are read as usual; no settings file is written
+ * @param values - User setting values keyed without the `tazapay-mcp.` prefix (unlisted keys use their default)
+ * @param workspaceValues - Workspace setting values, which take precedence over user values (optional)
+ * @returns () => void - Restores the real configuration
+ */
+export function stubConfiguration(values: Record<string, any>, workspaceValues: Record<string, any> = {}): () => void {
+	const workspace = vscode.workspace as { getConfiguration: typeof vscode.workspace.getConfiguration };
+	const getConfiguration = workspace.getConfiguration;
+
+	const configuration = {
+		get: (key: string, defaultValue?: any) => workspaceValues[key] ?? values[key] ?? defaultValue,
+		has: (key: string) => workspaceValues[key] !== undefined || values[key] !== undefined,
+		inspect: (key: string) => ({ key, globalValue: values[key], workspaceValue: workspaceValues[key] }),
+		update: async (key: string, value: any) => {
+			values[key] = value;
+		}
+	} as vscode.WorkspaceConfiguration;
+
+	workspace.getConfiguration = (section?: string, scope?: vscode.ConfigurationScope | null) =>
+		section === 'tazapay-mcp' ? configuration : getConfiguration.call(vscode.workspace, section, scope);
+	return () => {
+		workspace.getConfiguration = getConfiguration;
+	};
+}
+
+/**
+ * In-memory stand-in for the parts of an extension context the modules under test use
+ * @param globalStorageUri - Folder used as global storage (optional)
+ * @param extensionUri - Folder the extension is installed in (optional)
+ * @returns vscode.ExtensionContext - Context whose globalState lives only as long as the object
+ */
+export function createExtensionContext(globalStorageUri?: vscode.Uri, extensionUri?: vscode.Uri): vscode.ExtensionContext {
+	const state = new Map<string, any>();
+	const globalState = {
+		keys: () => [...state.keys()],
+		get: (key: string, defaultValue?: any) => state.has(key) ? state.get(key) : defaultValue,
+		update: async (key: string, value: any) => {
+			state.set(key, value);
+		},
+		setKeysForSync: () => undefined
+	};
+	return { globalState, globalStorageUri, extensionUri } as unknown as vscode.ExtensionContext;
+}
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { StdioTransport, resolveMcpEndpoint } from '../mcpTransport';
+
+suite('MCP Transport Test Suite', () => {
+	test('appends the endpoint path to the server URL', () => {
+		assert.strictEqual(resolveMcpEndpoint('https://api.tazapay.com', '/mcp'), 'https://api.tazapay.com/mcp');
+		assert.strictEqual(resolveMcpEndpoint('https://api.tazapay.com/', 'mcp'), 'https://api.tazapay.com/mcp');
+		assert.strictEqual(resolveMcpEndpoint('https://example.com/tazapay/', '/v1/mcp'), 'https://example.com/tazapay/v1/mcp');
+	});
+
+	test('keeps paths that look like credentials or hosts on the server', () => {
+		assert.strictEqual(resolveMcpEndpoint('https://api.tazapay.com', '@attacker.example/mcp'), 'https://api.tazapay.com/@attacker.example/mcp');
+		assert.strictEqual(resolveMcpEndpoint('https://api.tazapay.com', '//attacker.example/mcp'), 'https://api.tazapay.com/attacker.example/mcp');
+	});
+
+	test('rejects endpoints on another origin', () => {
+		assert.throws(() => resolveMcpEndpoint('https://api.tazapay.com', 'https://attacker.example/mcp'), /not on the server URL/);
+		assert.throws(() => resolveMcpEndpoint('https://api.tazapay.com', 'http://api.tazapay.com/mcp'), /not on the server URL/);
+	});
+
+	test('fails requests to a stdio server that stopped reading and logs its stderr', async () => {
+		const logged: string[] = [];
+		const script = "process.stderr.write('starting\\n'); require('fs').closeSync(0); setTimeout(() => {}, 2000);";
+		const transport = new StdioTransport(process.execPath, ['-e', script], {}, message => logged.push(message));
+		try {
+			// Give the server time to close its stdin
+			await transport.notify('notifications/initialized').catch(() => undefined);
+			await new Promise(resolve => setTimeout(resolve, 300));
+			await assert.rejects(transport.request('tools/list'));
+			assert.deepStrictEqual(logged, ['starting']);
+		} finally {
+			await transport.close();
+		}
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { ParameterValidationError, formatValidationIssues, validateParameters } from '../schemaValidator';
+
+const paymentSchema = {
+	type: 'object',
+	required: ['amount', 'currency', 'customer'],
+	additionalProperties: false,
+	properties: {
+		amount: { type: 'integer', minimum: 1 },
+		currency: { type: 'string', enum: ['USD', 'SGD'] },
+		customer: { $ref: '#/$defs/customer' },
+		items: { type: 'array', maxItems: 2, items: { type: 'object', required: ['amount'], properties: { amount: { type: 'number', exclusiveMinimum: 0 } } } }
+	},
+	$defs: {
+		customer: {
+			type: 'object',
+			required: ['email'],
+			properties: { email: { type: 'string', format: 'email' }, country: { type: 'string', pattern: '^[A-Z]{2}$' } }
+		}
+	}
+};
+
+suite('Schema Validator Test Suite', () => {
+	test('accepts a valid payload', () => {
+		const issues = validateParameters(paymentSchema, {
+			amount: 1000,
+			currency: 'USD',
+			customer: { email: 'buyer@example.com', country: 'SG' },
+			items: [{ amount: 10.5 }]
+		});
+		assert.deepStrictEqual(issues, []);
+	});
+
+	test('reports every problem with its field path', () => {
+		const issues = validateParameters(paymentSchema, {
+			amount: 0,
+			currency: 'EUR',
+			customer: { email: 'not-an-email', country: 'sg' },
+			items: [{ amount: 0 }, {}, { amount: 1 }],
+			note: 'extra'
+		});
+		assert.deepStrictEqual(issues, [
+			{ path: 'amount', message: 'must be >= 1' },
+			{ path: 'currency', message: 'must be one of "USD", "SGD"' },
+			{ path: 'customer.email', message: 'must be a valid email' },
+			{ path: 'customer.country', message: 'must match pattern ^[A-Z]{2}$' },
+			{ path: 'items', message: 'must contain at most 2 item(s)' },
+			{ path: 'items[0].amount', message: 'must be > 0' },
+			{ path: 'items[1].amount', message: 'is required' },
+			{ path: 'note', message: 'is not an allowed property' }
+		]);
+	});
+
+	test('reports missing required fields and type mismatches once', () => {
+		const issues = validateParameters(paymentSchema, { amount: '1000', customer: {} });
+		assert.deepStrictEqual(issues, [
+			{ path: 'currency', message: 'is required' },
+			{ path: 'amount', message: 'must be integer, got string' },
+			{ path: 'customer.email', message: 'is required' }
+		]);
+	});
+
+	test('checks anyOf and oneOf alternatives', () => {
+		const schema = {
+			type: 'object',
+			properties: {
+				reference: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+				method: { oneOf: [{ const: 'card' }, { type: 'string', minLength: 4 }] }
+			}
+		};
+		assert.deepStrictEqual(validateParameters(schema, { reference: 42, method: 'bank' }), []);
+		assert.deepStrictEqual(validateParameters(schema, { reference: true, method: 'card' }), [
+			{ path: 'reference', message: 'does not match any of the allowed shapes' },
+			{ path: 'method', message: 'must match exactly one of the allowed shapes' }
+		]);
+	});
+
+	test('treats a missing schema as valid', () => {
+		assert.deepStrictEqual(validateParameters(undefined, { anything: true }), []);
+	});
+
+	test('leaves remote references to the server', () => {
+		const schema = { type: 'object', properties: { customer: { $ref: 'https://example.com/customer.json' } } };
+		assert.deepStrictEqual(validateParameters(schema, { customer: 'anything' }), []);
+	});
+
+	test('formats issues one per line in the error message', () => {
+		const issues = [{ path: '', message: 'must be object, got array' }, { path: 'amount', message: 'is required' }];
+		assert.strictEqual(formatValidationIssues(issues), '- (root): must be object, got array\n- amount: is required');
+
+		const error = new ParameterValidationError('create_payment', issues);
+		assert.strictEqual(error.name, 'ParameterValidationError');
+		assert.strictEqual(error.message, `Invalid parameters for create_payment:\n${formatValidationIssues(issues)}`);
+	});
+});
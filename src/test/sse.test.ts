@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { SseEvent, SseParser, parseSseBody } from '../sse';
+
+suite('SSE Parser Test Suite', () => {
+	test('parses events with type, id and multi-line data', () => {
+		const events = parseSseBody('event: endpoint\nid: 7\ndata: /messages?session=1\n\ndata: first\ndata: second\n\n');
+		assert.deepStrictEqual(events, [
+			{ event: 'endpoint', data: '/messages?session=1', id: '7' },
+			{ event: 'message', data: 'first\nsecond', id: undefined }
+		]);
+	});
+
+	test('ignores comments and events without data', () => {
+		const events = parseSseBody(': keep-alive\n\nevent: ping\n\ndata: {"ok":true}\n\n');
+		assert.deepStrictEqual(events.map(event => event.data), ['{"ok":true}']);
+	});
+
+	test('accepts CRLF line endings and values without a leading space', () => {
+		const events = parseSseBody('event:message\r\ndata:{"id":1}\r\n\r\n');
+		assert.deepStrictEqual(events, [{ event: 'message', data: '{"id":1}', id: undefined }]);
+	});
+
+	test('assembles events split across chunks', () => {
+		const events: SseEvent[] = [];
+		const parser = new SseParser(event => events.push(event));
+		parser.feed('da');
+		parser.feed('ta: {"jsonrpc"');
+		assert.strictEqual(events.length, 0);
+		parser.feed(':"2.0"}\n');
+		assert.strictEqual(events.length, 0);
+		parser.feed('\n');
+		assert.deepStrictEqual(events.map(event => event.data), ['{"jsonrpc":"2.0"}']);
+	});
+
+	test('flushes the last event when the stream ends without a blank line', () => {
+		const events: SseEvent[] = [];
+		const parser = new SseParser(event => events.push(event));
+		parser.feed('data: last');
+		parser.end();
+		assert.deepStrictEqual(events.map(event => event.data), ['last']);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { EnvironmentProfile } from '../environments';
+import { MCPTool } from '../mcpClient';
+import { classifyTool, guardToolExecution } from '../toolSafety';
+import { stubConfiguration } from './helpers';
+
+const sandbox: EnvironmentProfile = { name: 'Sandbox', serverUrl: 'https://sandbox.example.com', ragUrl: '', live: false };
+const production: EnvironmentProfile = { name: 'Production', serverUrl: 'https://api.example.com', ragUrl: '', live: true };
+
+function tool(name: string, extra: Partial<MCPTool> = {}): MCPTool {
+	return { name, description: '', parameters: { type: 'object' }, ...extra };
+}
+
+suite('Tool Safety Test Suite', () => {
+	const window = vscode.window as { showWarningMessage: (...args: any[]) => Thenable<string | undefined> };
+	const showWarningMessage = window.showWarningMessage;
+	let settings: Record<string, any>;
+	let workspaceSettings: Record<string, any>;
+	let restoreConfiguration: () => void;
+	let confirmations: string[];
+	let confirmationAnswer: string | undefined;
+
+	setup(() => {
+		settings = {};
+		workspaceSettings = {};
+		restoreConfiguration = stubConfiguration(settings, workspaceSettings);
+
+		// Answer the live confirmation modal instead of showing it
+		confirmations = [];
+		confirmationAnswer = undefined;
+		window.showWarningMessage = async (message: string) => {
+			confirmations.push(message);
+			return confirmationAnswer;
+		};
+	});
+
+	teardown(() => {
+		restoreConfiguration();
+		window.showWarningMessage = showWarningMessage;
+	});
+
+	test('classifies tools by name', () => {
+		assert.strictEqual(classifyTool(tool('get_payment')), 'read-only');
+		assert.strictEqual(classifyTool(tool('listPayouts')), 'read-only');
+		assert.strictEqual(classifyTool(tool('fetch-balance')), 'read-only');
+		assert.strictEqual(classifyTool(tool('create_payout')), 'mutating');
+		assert.strictEqual(classifyTool(tool('get_and_cancel_checkout')), 'mutating');
+		assert.strictEqual(classifyTool(tool('payment_status')), 'mutating');
+	});
+
+	test('prefers annotations and schema metadata over the name', () => {
+		assert.strictEqual(classifyTool(tool('create_quote', { annotations: { readOnlyHint: true } })), 'read-only');
+		assert.strictEqual(classifyTool(tool('get_token', { annotations: { destructiveHint: true } })), 'mutating');
+		assert.strictEqual(classifyTool(tool('payment_status', { parameters: { type: 'object', 'x-tazapay-safety': 'read-only' } })), 'read-only');
+	});
+
+	test('prefers user overrides over everything else', () => {
+		settings['toolSafety.overrides'] = { 'get_payment': 'mutating', 'create_quote': 'read-only' };
+		assert.strictEqual(classifyTool(tool('get_payment')), 'mutating');
+		assert.strictEqual(classifyTool(tool('create_quote', { annotations: { readOnlyHint: false } })), 'read-only');
+	});
+
+	test('only lets workspace overrides make tools stricter', () => {
+		settings['toolSafety.overrides'] = { 'get_balance': 'read-only' };
+		workspaceSettings['toolSafety.overrides'] = { 'create_payout': 'read-only', 'get_payment': 'mutating', 'get_balance': 'mutating' };
+		assert.strictEqual(classifyTool(tool('create_payout')), 'mutating');
+		assert.strictEqual(classifyTool(tool('get_payment')), 'mutating');
+		assert.strictEqual(classifyTool(tool('get_balance')), 'mutating');
+	});
+
+	test('lets read-only tools and non-live environments through', async () => {
+		assert.strictEqual(await guardToolExecution(tool('create_payout'), {}, sandbox), true);
+		assert.strictEqual(await guardToolExecution(tool('get_payment'), {}, production), true);
+		assert.deepStrictEqual(confirmations, []);
+	});
+
+	test('asks before running mutating tools against live environments', async () => {
+		assert.strictEqual(await guardToolExecution(tool('create_payout'), { amount: 1 }, production), false);
+		confirmationAnswer = 'Run in Production';
+		assert.strictEqual(await guardToolExecution(tool('create_payout'), { amount: 1 }, production), true);
+		assert.deepStrictEqual(confirmations, ['Run "create_payout" against LIVE Production?', 'Run "create_payout" against LIVE Production?']);
+	});
+
+	test('blocks mutating tools against live environments when configured', async () => {
+		settings['blockLiveMutations'] = true;
+		confirmationAnswer = 'Run in Production';
+		assert.strictEqual(await guardToolExecution(tool('create_payout'), {}, production), false);
+		assert.strictEqual(await guardToolExecution(tool('create_payout'), {}, sandbox), true);
+		assert.deepStrictEqual(confirmations, []);
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { getSignatureHeader, signWebhook, verifyWebhookSignature } from '../webhookSignature';
+import { stubConfiguration } from './helpers';
+
+const SECRET = 'whsec_test';
+const BODY = '{"type":"payment.completed","data":{"id":"pay_123"}}';
+
+suite('Webhook Signature Test Suite', () => {
+	let settings: Record<string, any>;
+	let restoreConfiguration: () => void;
+
+	setup(() => {
+		settings = {};
+		restoreConfiguration = stubConfiguration(settings);
+	});
+
+	teardown(() => restoreConfiguration());
+
+	test('signs payloads with a hex HMAC-SHA256 digest', () => {
+		const expected = crypto.createHmac('sha256', SECRET).update(BODY, 'utf8').digest('hex');
+		assert.strictEqual(signWebhook(BODY, SECRET), expected);
+	});
+
+	test('accepts bare and sha256= prefixed signatures in any case', () => {
+		const signature = signWebhook(BODY, SECRET);
+		assert.strictEqual(verifyWebhookSignature(BODY, signature, SECRET), 'matches');
+		assert.strictEqual(verifyWebhookSignature(BODY, `sha256=${signature}`, SECRET), 'matches');
+		assert.strictEqual(verifyWebhookSignature(BODY, ` SHA256=${signature.toUpperCase()} `, SECRET), 'matches');
+	});
+
+	test('rejects signatures of another body or secret', () => {
+		const signature = signWebhook(BODY, SECRET);
+		assert.strictEqual(verifyWebhookSignature(`${BODY} `, signature, SECRET), 'mismatch');
+		assert.strictEqual(verifyWebhookSignature(BODY, signature, 'whsec_other'), 'mismatch');
+		assert.strictEqual(verifyWebhookSignature(BODY, signature.substring(1), SECRET), 'mismatch');
+	});
+
+	test('reports missing signatures and unconfigured secrets', () => {
+		assert.strictEqual(verifyWebhookSignature(BODY, undefined, SECRET), 'missing');
+		assert.strictEqual(verifyWebhookSignature(BODY, '', SECRET), 'missing');
+		assert.strictEqual(verifyWebhookSignature(BODY, signWebhook(BODY, SECRET), undefined), 'unchecked');
+	});
+
+	test('reads the signature header name in lower case', () => {
+		assert.strictEqual(getSignatureHeader(), 'x-tazapay-signature');
+		settings['webhooks.signatureHeader'] = 'X-Webhook-Signature';
+		assert.strictEqual(getSignatureHeader(), 'x-webhook-signature');
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * Tool Categories
+ *
+ * This module sorts MCP tools into the product areas shown as groups in the tools tree
+ * (payments, payouts, beneficiaries, checkout...), so long tool lists stay navigable.
+ *
+ * Classification order:
+ * 1. Server metadata (`category` on REST tools, `_meta.category` on MCP tools)
+ * 2. Schema metadata (`x-tazapay-category` on the tool's parameters schema)
+ * 3. Name words (`create_payout` and `listPayouts` both belong to Payouts)
+ * Anything that can't be classified goes to "Other".
+ */
+
+import { MCPTool } from './mcpClient';
+
+/**
+ * A group of tools in the tools tree
+ */
+export interface ToolCategory {
+  id: string;     // Stable identifier (lower case)
+  label: string;  // Display name
+  icon: string;   // Codicon id
+}
+
+// Known product areas, in display order, with the name words that identify them
+const KNOWN_CATEGORIES: (ToolCategory & { words: string[] })[] = [
+  { id: 'checkout', label: 'Checkout', icon: 'browser', words: ['checkout', 'checkouts', 'session', 'sessions'] },
+  { id: 'payments', label: 'Payments', icon: 'credit-card', words: ['payment', 'payments', 'payin', 'payins', 'charge', 'charges', 'capture'] },
+  { id: 'refunds', label: 'Refunds', icon: 'discard', words: ['refund', 'refunds'] },
+  { id: 'payouts', label: 'Payouts', icon: 'export', words: ['payout', 'payouts', 'transfer', 'transfers', 'withdrawal', 'withdrawals'] },
+  { id: 'beneficiaries', label: 'Beneficiaries', icon: 'person', words: ['beneficiary', 'beneficiaries', 'recipient', 'recipients'] },
+  { id: 'customers', label: 'Customers', icon: 'account', words: ['customer', 'customers', 'buyer', 'buyers'] },
+  { id: 'escrow', label: 'Escrow', icon: 'lock', words: ['escrow', 'escrows'] },
+  { id: 'disputes', label: 'Disputes', icon: 'law', words: ['dispute', 'disputes', 'chargeback', 'chargebacks'] },
+  { id: 'balances', label: 'Balances & FX', icon: 'graph', words: ['balance', 'balances', 'fx', 'rate', 'rates', 'quote', 'quotes', 'exchange'] },
+  { id: 'webhooks', label: 'Webhooks', icon: 'radio-tower', words: ['webhook', 'webhooks', 'event', 'events'] },
+  { id: 'documentation', label: 'Documentation', icon: 'book', words: ['doc', 'docs', 'documentation', 'ask', 'question'] }
+];
+
+/**
+ * Group of tools that match no known category
+ */
+export const OTHER_CATEGORY: ToolCategory = { id: 'other', label: 'Other', icon: 'tools' };
+
+/**
+ * Find the category of a tool
+ * @param tool - Tool to classify
+ * @returns ToolCategory - Known category, a category named by the server, or OTHER_CATEGORY
+ */
+export function categorizeTool(tool: MCPTool): ToolCategory {
+  const declared = tool.category ?? tool.parameters?.['x-tazapay-category'];
+  if (typeof declared === 'string' && declared.trim()) {
+    const id = declared.trim().toLowerCase();
+    const known = KNOWN_CATEGORIES.find(category => category.id === id || category.words.includes(id));
+    return known ? toCategory(known) : { id, label: declared.trim(), icon: 'folder' };
+  }
+
+  // Split snake_case, kebab-case and camelCase names into words
+  const words = tool.name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word);
+  for (const word of words) {
+    const known = KNOWN_CATEGORIES.find(category => category.words.includes(word));
+    if (known) {
+      return toCategory(known);
+    }
+  }
+  return OTHER_CATEGORY;
+}
+
+/**
+ * Sort position of a category: known categories first in their fixed order,
+ * then server-defined ones alphabetically, then "Other"
+ */
+export function compareCategories(a: ToolCategory, b: ToolCategory): number {
+  return categoryRank(a) - categoryRank(b) || a.label.localeCompare(b.label);
+}
+
+function categoryRank(category: ToolCategory): number {
+  if (category.id === OTHER_CATEGORY.id) {
+    return KNOWN_CATEGORIES.length + 1;
+  }
+  const index = KNOWN_CATEGORIES.findIndex(known => known.id === category.id);
+  return index === -1 ? KNOWN_CATEGORIES.length : index;
+}
+
+function toCategory({ id, label, icon }: ToolCategory): ToolCategory {
+  return { id, label, icon };
+}
@@ -0,0 +1,362 @@
+/**
+ * Tool Details View
+ *
+ * This module opens a webview documenting one MCP tool: how it is called, what it does,
+ * its parameters in a readable table and sample request / response bodies, so developers
+ * don't have to read raw JSON Schema to use a tool.
+ *
+ * Features:
+ * - Endpoint, category, safety classification and description
+ * - Parameter table (name, type, required, enum, default, description), nested properties flattened
+ * - Sample request and response bodies built from the tool's schemas
+ * - Buttons to execute the tool, generate code or ask @tazapay about it
+ * - One panel per tool, revealed again when reopened
+ */
+
+import * as vscode from 'vscode';
+import { exampleValue, getSchemaFields } from './codeGenerator';
+import { MCPTool } from './mcpClient';
+import { resolveRef } from './schemaValidator';
+import { categorizeTool } from './toolCategories';
+import { classifyTool } from './toolSafety';
+import { escapeHtml, getNonce } from './webviewUtils';
+
+// Nesting depth up to which object properties get their own table rows
+const MAX_ROW_DEPTH = 3;
+
+/**
+ * One row of the parameter table
+ */
+interface ParameterRow {
+  name: string;          // Property path (nested properties as "parent.child", array items as "list[].child")
+  type: string;          // Readable type ("string (email)", "array of object"...)
+  required: boolean;
+  enumValues: string[];  // Allowed values (empty when unrestricted)
+  defaultValue?: string; // Default value as JSON
+  description: string;   // Description and constraints
+  depth: number;         // Nesting level, for indentation
+}
+
+/**
+ * Webview panel documenting a tool
+ */
+export class ToolDetailsPanel {
+  // Open panels, keyed by tool name
+  private static readonly panels = new Map<string, vscode.WebviewPanel>();
+
+  /**
+   * Show the details of a tool, reusing its panel if it is already open
+   * @param tool - Tool to document
+   * @param serverUrl - Server URL of the active environment (shown in the endpoint)
+   */
+  static show(tool: MCPTool, serverUrl: string): void {
+    const existing = ToolDetailsPanel.panels.get(tool.name);
+    if (existing) {
+      existing.webview.html = ToolDetailsPanel.getHtml(tool, serverUrl);
+      existing.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'tazapayToolDetails',
+      `${tool.name} - Details`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true }
+    );
+    panel.webview.html = ToolDetailsPanel.getHtml(tool, serverUrl);
+    ToolDetailsPanel.panels.set(tool.name, panel);
+
+    panel.webview.onDidReceiveMessage(async message => {
+      switch (message.command) {
+        case 'execute':
+          await vscode.commands.executeCommand('tazapay-mcp.executeTool', tool);
+          break;
+        case 'generateCode':
+          await vscode.commands.executeCommand('tazapay-mcp.generateCode', tool);
+          break;
+        case 'ask':
+          await vscode.commands.executeCommand('tazapay-mcp.openCopilotChat',
+            `@tazapay How do I use the ${tool.name} tool? Explain its parameters and what it returns.`);
+          break;
+        case 'copy':
+          await vscode.env.clipboard.writeText(message.text);
+          vscode.window.setStatusBarMessage('Copied to clipboard', 3000);
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => ToolDetailsPanel.panels.delete(tool.name));
+  }
+
+  private static getHtml(tool: MCPTool, serverUrl: string): string {
+    const nonce = getNonce();
+    const schema = tool.parameters && typeof tool.parameters === 'object' ? tool.parameters : { type: 'object' };
+    const rows = parameterRows(schema, schema);
+    const sampleRequest = JSON.stringify(exampleValue(schema, schema, tool.name, 0, true), null, 2);
+    const sampleResponse = JSON.stringify({
+      success: true,
+      data: tool.outputSchema ? exampleValue(tool.outputSchema, tool.outputSchema, 'result', 0, true) : {}
+    }, null, 2);
+
+    const transport = vscode.workspace.getConfiguration('tazapay-mcp').get<string>('transport', 'rest');
+    const endpoint = transport === 'rest'
+      ? `POST ${serverUrl.replace(/\/+$/, '')}${tool.endpoint || `/tools/${tool.name}`}`
+      : `MCP tools/call "${tool.name}" (${transport})`;
+    const safety = classifyTool(tool);
+
+    const tableRows = rows.map(row => `
+            <tr>
+                <td class="name" style="padding-left: ${8 + row.depth * 16}px"><code>${escapeHtml(row.name)}</code></td>
+                <td>${escapeHtml(row.type)}</td>
+                <td>${row.required ? '<span class="required">Yes</span>' : 'No'}</td>
+                <td>${row.enumValues.map(value => `<code>${escapeHtml(value)}</code>`).join(' ')}</td>
+                <td>${row.defaultValue !== undefined ? `<code>${escapeHtml(row.defaultValue)}</code>` : ''}</td>
+                <td>${escapeHtml(row.description)}</td>
+            </tr>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>${escapeHtml(tool.name)}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 16px 20px;
+            max-width: 960px;
+        }
+        h1 {
+            margin: 0 0 4px 0;
+            font-size: 20px;
+        }
+        h2 {
+            font-size: 14px;
+            margin: 24px 0 8px 0;
+        }
+        .subtitle, .note {
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        .badges {
+            display: flex;
+            gap: 6px;
+            margin: 8px 0;
+        }
+        .badge {
+            padding: 1px 8px;
+            border-radius: 10px;
+            font-size: 11px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .badge.mutating {
+            background-color: var(--vscode-inputValidation-warningBackground);
+            color: var(--vscode-foreground);
+        }
+        .endpoint {
+            font-family: var(--vscode-editor-font-family);
+            padding: 6px 8px;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 2px;
+        }
+        .description {
+            white-space: pre-wrap;
+            line-height: 1.5;
+        }
+        table {
+            border-collapse: collapse;
+            width: 100%;
+            font-size: 12px;
+        }
+        th, td {
+            text-align: left;
+            vertical-align: top;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            font-weight: 600;
+        }
+        code, pre {
+            font-family: var(--vscode-editor-font-family);
+        }
+        td code {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 0 3px;
+            border-radius: 2px;
+        }
+        .required {
+            color: var(--vscode-errorForeground);
+        }
+        pre {
+            padding: 8px 12px;
+            background-color: var(--vscode-textCodeBlock-background);
+            border-radius: 2px;
+            overflow-x: auto;
+            margin: 0;
+        }
+        .sample-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        button.small {
+            padding: 2px 8px;
+            font-size: 12px;
+        }
+        .actions {
+            display: flex;
+            gap: 8px;
+            margin: 16px 0;
+        }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(tool.title || tool.name)}</h1>
+    ${tool.title && tool.title !== tool.name ? `<div class="subtitle"><code>${escapeHtml(tool.name)}</code></div>` : ''}
+    <div class="badges">
+        <span class="badge">${escapeHtml(categorizeTool(tool).label)}</span>
+        <span class="badge ${safety}">${safety}</span>
+    </div>
+    <div class="endpoint">${escapeHtml(endpoint)}</div>
+
+    <div class="actions">
+        <button data-command="execute">Execute</button>
+        <button data-command="generateCode" class="secondary">Generate Code</button>
+        <button data-command="ask" class="secondary">Ask @tazapay</button>
+    </div>
+
+    <p class="description">${escapeHtml(tool.description || 'No description provided by the server.')}</p>
+
+    <h2>Parameters</h2>
+    ${rows.length > 0 ? `<table>
+        <thead>
+            <tr><th>Name</th><th>Type</th><th>Required</th><th>Enum</th><th>Default</th><th>Description</th></tr>
+        </thead>
+        <tbody>${tableRows}
+        </tbody>
+    </table>` : '<p class="note">This tool takes no parameters.</p>'}
+
+    <div class="sample-header">
+        <h2>Sample request</h2>
+        <button class="small secondary" data-copy="sampleRequest">Copy</button>
+    </div>
+    <pre id="sampleRequest">${escapeHtml(sampleRequest)}</pre>
+    <p class="note">Placeholders such as <code>&lt;name&gt;</code> stand for values you provide.</p>
+
+    <div class="sample-header">
+        <h2>Sample response</h2>
+        <button class="small secondary" data-copy="sampleResponse">Copy</button>
+    </div>
+    <pre id="sampleResponse">${escapeHtml(sampleResponse)}</pre>
+    ${tool.outputSchema ? '' : '<p class="note">The server doesn\'t publish an output schema for this tool, so the shape of <code>data</code> isn\'t known in advance.</p>'}
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+
+        document.querySelectorAll('[data-command]').forEach(button => {
+            button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+        });
+        document.querySelectorAll('[data-copy]').forEach(button => {
+            button.addEventListener('click', () => {
+                const text = document.getElementById(button.dataset.copy).textContent;
+                vscode.postMessage({ command: 'copy', text });
+            });
+        });
+    </script>
+</body>
+</html>`;
+  }
+}
+
+/**
+ * Flatten an object schema into table rows, nested properties after their parent
+ */
+function parameterRows(schema: any, root: any, prefix = '', depth = 0): ParameterRow[] {
+  const rows: ParameterRow[] = [];
+  for (const field of getSchemaFields(schema, root)) {
+    const name = `${prefix}${field.name}`;
+    const resolved = field.schema;
+    rows.push({
+      name,
+      type: typeLabel(resolved, root),
+      required: field.required,
+      enumValues: Array.isArray(resolved.enum) ? resolved.enum.map((value: unknown) => JSON.stringify(value)) : [],
+      defaultValue: resolved.default !== undefined ? JSON.stringify(resolved.default) : undefined,
+      description: [field.description, constraints(resolved)].filter(text => text).join(' · '),
+      depth
+    });
+
+    if (depth + 1 < MAX_ROW_DEPTH) {
+      const items = resolveRef(resolved.items, root);
+      if (getSchemaFields(resolved, root).length > 0) {
+        rows.push(...parameterRows(resolved, root, `${name}.`, depth + 1));
+      } else if (items && getSchemaFields(items, root).length > 0) {
+        rows.push(...parameterRows(items, root, `${name}[].`, depth + 1));
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * Readable type of a schema ("string (email)", "array of object", "integer | null")
+ */
+function typeLabel(schema: any, root: any, depth = 0): string {
+  const resolved = resolveRef(schema, root) || {};
+  let type: string;
+  if (Array.isArray(resolved.type)) {
+    type = resolved.type.join(' | ');
+  } else if (resolved.type) {
+    type = resolved.type;
+  } else if (resolved.properties) {
+    type = 'object';
+  } else if (resolved.items) {
+    type = 'array';
+  } else if (Array.isArray(resolved.enum) && resolved.enum.length > 0) {
+    type = typeof resolved.enum[0];
+  } else if (Array.isArray(resolved.oneOf ?? resolved.anyOf)) {
+    type = (resolved.oneOf ?? resolved.anyOf).map((option: any) => typeLabel(option, root, depth + 1)).join(' | ');
+  } else {
+    type = 'any';
+  }
+
+  if (type === 'array' && resolved.items && depth < MAX_ROW_DEPTH) {
+    return `array of ${typeLabel(resolved.items, root, depth + 1)}`;
+  }
+  return resolved.format ? `${type} (${resolved.format})` : type;
+}
+
+/**
+ * Summarize validation constraints (length, range, pattern)
+ */
+function constraints(schema: any): string {
+  const parts: string[] = [];
+  if (schema.minLength !== undefined) { parts.push(`min length ${schema.minLength}`); }
+  if (schema.maxLength !== undefined) { parts.push(`max length ${schema.maxLength}`); }
+  if (schema.minimum !== undefined) { parts.push(`min ${schema.minimum}`); }
+  if (schema.maximum !== undefined) { parts.push(`max ${schema.maximum}`); }
+  if (schema.minItems !== undefined) { parts.push(`min items ${schema.minItems}`); }
+  if (schema.maxItems !== undefined) { parts.push(`max items ${schema.maxItems}`); }
+  if (schema.pattern !== undefined) { parts.push(`pattern ${schema.pattern}`); }
+  return parts.join(', ');
+}
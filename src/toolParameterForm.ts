@@ -0,0 +1,590 @@
+/**
+ * Tool Parameter Form
+ *
+ * This module opens a webview form generated from an MCP tool's `parameters` JSON Schema,
+ * replacing the single-line raw JSON input box when executing tools.
+ *
+ * Features:
+ * - Fields generated from the schema with required markers, defaults and descriptions
+ * - Enums rendered as dropdowns, nested objects as fieldsets and arrays as editable lists
+ * - "Raw JSON" toggle for pasting or hand-editing complete payloads
+ * - Last submitted values remembered per tool
+ */
+
+import * as vscode from 'vscode';
+import { MCPTool } from './mcpClient';
+import { ValidationIssue } from './schemaValidator';
+import { escapeHtml, getNonce, toScriptJson } from './webviewUtils';
+
+// globalState key holding the last submitted parameters, keyed by tool name
+const LAST_VALUES_KEY = 'tazapay.lastToolParameters';
+
+/**
+ * Webview form for entering tool parameters
+ */
+export class ToolParameterForm {
+  /**
+   * Show the parameter form for a tool and wait for the user to submit or cancel
+   * @param context - Extension context (used to remember last values)
+   * @param tool - Tool whose `parameters` schema drives the form
+   * @param validate - Optional check run on submit; any issues are shown next to their fields
+   * @param initialValues - Values to start from instead of the last values used for the tool
+   * @returns Promise resolving to the submitted parameters, or undefined if cancelled
+   */
+  static show(
+    context: vscode.ExtensionContext,
+    tool: MCPTool,
+    validate?: (values: any) => ValidationIssue[],
+    initialValues?: any
+  ): Promise<any | undefined> {
+    const panel = vscode.window.createWebviewPanel(
+      'tazapayToolParameters',
+      `Run ${tool.name}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    const lastValues = context.globalState.get<Record<string, any>>(LAST_VALUES_KEY, {});
+    panel.webview.html = ToolParameterForm.getHtml(tool, initialValues !== undefined ? initialValues : lastValues[tool.name]);
+
+    return new Promise(resolve => {
+      let settled = false;
+      const finish = (value: any | undefined) => {
+        if (!settled) {
+          settled = true;
+          resolve(value);
+        }
+      };
+
+      panel.webview.onDidReceiveMessage(async message => {
+        switch (message.command) {
+          case 'submit':
+            // Keep the form open until the payload passes validation
+            const issues = validate ? validate(message.values) : [];
+            if (issues.length > 0) {
+              panel.webview.postMessage({ command: 'validationErrors', issues });
+              break;
+            }
+            // Remember what was used so the next run starts from the same payload
+            await context.globalState.update(LAST_VALUES_KEY, { ...lastValues, [tool.name]: message.values });
+            finish(message.values);
+            panel.dispose();
+            break;
+          case 'cancel':
+            panel.dispose();
+            break;
+        }
+      });
+
+      panel.onDidDispose(() => finish(undefined));
+    });
+  }
+
+  private static getHtml(tool: MCPTool, lastValues: any): string {
+    const nonce = getNonce();
+    const schema = tool.parameters && typeof tool.parameters === 'object' ? tool.parameters : { type: 'object' };
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Run ${escapeHtml(tool.name)}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 16px 20px;
+            max-width: 760px;
+        }
+        h2 {
+            margin-top: 0;
+        }
+        .tool-description, .help-text {
+            color: var(--vscode-descriptionForeground);
+            font-size: 12px;
+        }
+        .field {
+            margin-bottom: 12px;
+        }
+        .field > label {
+            display: block;
+            font-weight: 500;
+            margin-bottom: 4px;
+        }
+        .required {
+            color: var(--vscode-errorForeground);
+            margin-left: 2px;
+        }
+        input, select, textarea {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 6px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 2px;
+            font-family: inherit;
+            font-size: 13px;
+        }
+        input[type="checkbox"] {
+            width: auto;
+        }
+        textarea {
+            font-family: var(--vscode-editor-font-family);
+            min-height: 80px;
+        }
+        #rawJson {
+            min-height: 320px;
+        }
+        fieldset {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            margin: 0 0 12px 0;
+            padding: 8px 12px;
+        }
+        legend {
+            font-weight: 500;
+            padding: 0 4px;
+        }
+        .array-item {
+            display: flex;
+            gap: 8px;
+            align-items: flex-start;
+        }
+        .array-item > .field, .array-item > fieldset {
+            flex: 1;
+        }
+        .field-error {
+            color: var(--vscode-errorForeground);
+            font-size: 12px;
+            margin-top: 2px;
+            white-space: pre-line;
+        }
+        .has-error > input, .has-error > select, .has-error > textarea {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        button.small {
+            padding: 2px 8px;
+            font-size: 12px;
+        }
+        .toolbar, .actions {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin: 12px 0;
+        }
+        .hidden {
+            display: none;
+        }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(tool.name)}</h2>
+    <div class="tool-description">${escapeHtml(tool.description || '')}</div>
+
+    <div class="toolbar">
+        <label><input type="checkbox" id="rawToggle"> Raw JSON</label>
+    </div>
+
+    <form id="form"></form>
+    <div id="rawContainer" class="hidden">
+        <textarea id="rawJson" spellcheck="false"></textarea>
+    </div>
+    <div class="field-error" id="formError"></div>
+
+    <div class="actions">
+        <button id="submitBtn">Run Tool</button>
+        <button id="cancelBtn" class="secondary">Cancel</button>
+    </div>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const rootSchema = ${toScriptJson(schema)};
+        const lastValues = ${toScriptJson(lastValues === undefined ? null : lastValues)};
+
+        let rootField = null;
+
+        // Resolve local "#/definitions/..." and "#/$defs/..." references
+        function resolve(schema) {
+            let current = schema || {};
+            let depth = 0;
+            while (current && current.$ref && depth < 10) {
+                const parts = current.$ref.replace(/^#\\//, '').split('/');
+                let target = rootSchema;
+                for (const part of parts) {
+                    target = target ? target[part] : undefined;
+                }
+                current = target || {};
+                depth++;
+            }
+            return current;
+        }
+
+        function schemaType(schema) {
+            if (Array.isArray(schema.type)) {
+                return schema.type.find(t => t !== 'null') || 'string';
+            }
+            if (schema.type) {
+                return schema.type;
+            }
+            if (schema.properties) {
+                return 'object';
+            }
+            if (schema.items) {
+                return 'array';
+            }
+            return schema.enum ? 'enum' : 'any';
+        }
+
+        function createLabel(text, required, container) {
+            const label = document.createElement(container === 'legend' ? 'legend' : 'label');
+            label.textContent = text;
+            if (required) {
+                const marker = document.createElement('span');
+                marker.className = 'required';
+                marker.textContent = '*';
+                marker.title = 'Required';
+                label.appendChild(marker);
+            }
+            return label;
+        }
+
+        function createHelp(schema) {
+            const help = document.createElement('div');
+            help.className = 'help-text';
+            const parts = [];
+            if (schema.description) {
+                parts.push(schema.description);
+            }
+            if (schema.format) {
+                parts.push('Format: ' + schema.format);
+            }
+            if (schema.default !== undefined) {
+                parts.push('Default: ' + JSON.stringify(schema.default));
+            }
+            help.textContent = parts.join(' \\u2022 ');
+            return help;
+        }
+
+        function createErrorSlot() {
+            const error = document.createElement('div');
+            error.className = 'field-error';
+            return error;
+        }
+
+        // Build a field for a schema; returns { element, getValue, path }
+        function buildField(rawSchema, value, name, required, path) {
+            const schema = resolve(rawSchema);
+            const type = schema.enum ? 'enum' : schemaType(schema);
+            const initial = value !== undefined ? value : schema.default;
+
+            if (type === 'object' && schema.properties) {
+                return buildObject(schema, initial, name, required, path);
+            }
+            if (type === 'array') {
+                return buildArray(schema, initial, name, required, path);
+            }
+
+            const wrapper = document.createElement('div');
+            wrapper.className = 'field';
+            wrapper.dataset.path = path;
+            if (name !== null) {
+                wrapper.appendChild(createLabel(name, required));
+            }
+
+            let input;
+            let getValue;
+
+            if (type === 'enum') {
+                input = document.createElement('select');
+                if (!required) {
+                    input.appendChild(new Option('', ''));
+                }
+                schema.enum.forEach((option, index) => {
+                    const opt = new Option(String(option), String(index));
+                    if (initial !== undefined && JSON.stringify(option) === JSON.stringify(initial)) {
+                        opt.selected = true;
+                    }
+                    input.appendChild(opt);
+                });
+                getValue = () => input.value === '' ? undefined : schema.enum[Number(input.value)];
+            } else if (type === 'boolean' && required) {
+                input = document.createElement('input');
+                input.type = 'checkbox';
+                input.checked = initial === true;
+                getValue = () => input.checked;
+            } else if (type === 'boolean') {
+                input = document.createElement('select');
+                ['', 'true', 'false'].forEach(option => input.appendChild(new Option(option, option)));
+                input.value = initial === undefined ? '' : String(initial);
+                getValue = () => input.value === '' ? undefined : input.value === 'true';
+            } else if (type === 'number' || type === 'integer') {
+                input = document.createElement('input');
+                input.type = 'number';
+                if (type === 'integer') {
+                    input.step = '1';
+                }
+                if (schema.minimum !== undefined) {
+                    input.min = String(schema.minimum);
+                }
+                if (schema.maximum !== undefined) {
+                    input.max = String(schema.maximum);
+                }
+                input.value = initial === undefined ? '' : String(initial);
+                getValue = () => input.value === '' ? undefined : Number(input.value);
+            } else if (type === 'string') {
+                input = document.createElement('input');
+                input.type = 'text';
+                input.placeholder = schema.examples && schema.examples.length ? String(schema.examples[0]) : '';
+                input.value = initial === undefined ? '' : String(initial);
+                getValue = () => input.value === '' ? undefined : input.value;
+            } else {
+                // Free-form values (objects without properties, unions) are edited as JSON
+                input = document.createElement('textarea');
+                input.spellcheck = false;
+                input.placeholder = 'JSON value';
+                input.value = initial === undefined ? '' : JSON.stringify(initial, null, 2);
+                getValue = () => {
+                    if (input.value.trim() === '') {
+                        return undefined;
+                    }
+                    try {
+                        return JSON.parse(input.value);
+                    } catch (e) {
+                        throw new Error((name || 'value') + ' is not valid JSON');
+                    }
+                };
+            }
+
+            wrapper.appendChild(input);
+            wrapper.appendChild(createHelp(schema));
+            wrapper.appendChild(createErrorSlot());
+            return { element: wrapper, getValue: getValue, path: path };
+        }
+
+        function buildObject(schema, value, name, required, path) {
+            const container = document.createElement(name === null ? 'div' : 'fieldset');
+            container.dataset.path = path;
+            if (name !== null) {
+                container.appendChild(createLabel(name, required, 'legend'));
+                if (schema.description) {
+                    container.appendChild(createHelp({ description: schema.description }));
+                }
+            }
+
+            const requiredProps = schema.required || [];
+            const current = value && typeof value === 'object' ? value : {};
+            const children = Object.keys(schema.properties).map(key => {
+                const child = buildField(
+                    schema.properties[key],
+                    current[key],
+                    key,
+                    requiredProps.indexOf(key) !== -1,
+                    path ? path + '.' + key : key
+                );
+                container.appendChild(child.element);
+                return { key: key, field: child };
+            });
+            container.appendChild(createErrorSlot());
+
+            return {
+                element: container,
+                path: path,
+                getValue: () => {
+                    const result = {};
+                    children.forEach(child => {
+                        const childValue = child.field.getValue();
+                        if (childValue !== undefined) {
+                            result[child.key] = childValue;
+                        }
+                    });
+                    return Object.keys(result).length === 0 && !required && name !== null ? undefined : result;
+                }
+            };
+        }
+
+        function buildArray(schema, value, name, required, path) {
+            const container = document.createElement('fieldset');
+            container.dataset.path = path;
+            container.appendChild(createLabel(name === null ? 'items' : name, required, 'legend'));
+            container.appendChild(createHelp(schema));
+
+            const list = document.createElement('div');
+            container.appendChild(list);
+            const items = [];
+
+            function addItem(itemValue) {
+                const row = document.createElement('div');
+                row.className = 'array-item';
+                const field = buildField(schema.items || {}, itemValue, null, true, path + '[' + items.length + ']');
+                const remove = document.createElement('button');
+                remove.type = 'button';
+                remove.className = 'secondary small';
+                remove.textContent = 'Remove';
+                const entry = { row: row, field: field };
+                remove.addEventListener('click', () => {
+                    // Read the other items before changing anything: a JSON item that doesn't parse throws
+                    let remaining;
+                    try {
+                        remaining = items.filter(item => item !== entry).map(item => item.field.getValue());
+                    } catch (e) {
+                        showError('Fix the other items before removing this one: ' + e.message);
+                        return;
+                    }
+                    // Rebuild the remaining items so their paths (used to place validation errors) match their new positions
+                    items.length = 0;
+                    list.innerHTML = '';
+                    remaining.forEach(addItem);
+                });
+                row.appendChild(field.element);
+                row.appendChild(remove);
+                list.appendChild(row);
+                items.push(entry);
+            }
+
+            (Array.isArray(value) ? value : []).forEach(addItem);
+
+            const add = document.createElement('button');
+            add.type = 'button';
+            add.className = 'secondary small';
+            add.textContent = 'Add item';
+            add.addEventListener('click', () => addItem(undefined));
+            container.appendChild(add);
+            container.appendChild(createErrorSlot());
+
+            return {
+                element: container,
+                path: path,
+                getValue: () => {
+                    const values = items.map(item => item.field.getValue()).filter(v => v !== undefined);
+                    return values.length === 0 && !required ? undefined : values;
+                }
+            };
+        }
+
+        function renderForm(values) {
+            const form = document.getElementById('form');
+            form.innerHTML = '';
+            const schema = resolve(rootSchema);
+            if (schemaType(schema) === 'object' && (!schema.properties || Object.keys(schema.properties).length === 0)) {
+                const empty = document.createElement('p');
+                empty.className = 'help-text';
+                empty.textContent = 'This tool has no declared parameters. Use Raw JSON to send a custom payload.';
+                form.appendChild(empty);
+                rootField = { element: empty, getValue: () => values || {} };
+                return;
+            }
+            rootField = buildField(schema, values === null ? undefined : values, null, true, '');
+            form.appendChild(rootField.element);
+        }
+
+        function collectValues() {
+            if (document.getElementById('rawToggle').checked) {
+                return JSON.parse(document.getElementById('rawJson').value || '{}');
+            }
+            const values = rootField.getValue();
+            return values === undefined ? {} : values;
+        }
+
+        function clearErrors() {
+            document.getElementById('formError').textContent = '';
+            document.querySelectorAll('.has-error').forEach(el => el.classList.remove('has-error'));
+            document.querySelectorAll('[data-path] > .field-error').forEach(el => { el.textContent = ''; });
+        }
+
+        function showError(message) {
+            document.getElementById('formError').textContent = message;
+        }
+
+        // Pressing Enter inside an input must not reload the webview
+        document.getElementById('form').addEventListener('submit', event => event.preventDefault());
+
+        document.getElementById('rawToggle').addEventListener('change', event => {
+            clearErrors();
+            const raw = event.target.checked;
+            if (raw) {
+                try {
+                    document.getElementById('rawJson').value = JSON.stringify(rootField.getValue() || {}, null, 2);
+                } catch (e) {
+                    document.getElementById('rawJson').value = '{}';
+                }
+            } else {
+                try {
+                    renderForm(JSON.parse(document.getElementById('rawJson').value || '{}'));
+                } catch (e) {
+                    event.target.checked = true;
+                    showError('Fix the JSON before switching back to the form: ' + e.message);
+                    return;
+                }
+            }
+            document.getElementById('form').classList.toggle('hidden', raw);
+            document.getElementById('rawContainer').classList.toggle('hidden', !raw);
+        });
+
+        document.getElementById('submitBtn').addEventListener('click', () => {
+            clearErrors();
+            let values;
+            try {
+                values = collectValues();
+            } catch (e) {
+                showError(e.message);
+                return;
+            }
+            vscode.postMessage({ command: 'submit', values: values });
+        });
+
+        document.getElementById('cancelBtn').addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancel' });
+        });
+
+        // Show validation issues next to their fields, or in the summary when no field matches
+        function showValidationErrors(issues) {
+            const raw = document.getElementById('rawToggle').checked;
+            const unmatched = [];
+            issues.forEach(issue => {
+                const fields = raw ? [] : Array.from(document.querySelectorAll('[data-path]'))
+                    .filter(el => el.dataset.path === issue.path);
+                const slot = fields.length ? fields[0].querySelector(':scope > .field-error') : null;
+                if (slot) {
+                    fields[0].classList.add('has-error');
+                    slot.textContent = slot.textContent ? slot.textContent + '; ' + issue.message : issue.message;
+                } else {
+                    unmatched.push((issue.path || '(root)') + ': ' + issue.message);
+                }
+            });
+            showError(unmatched.length
+                ? unmatched.join('\n')
+                : 'Please fix the highlighted fields.');
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'validationErrors') {
+                showValidationErrors(message.issues);
+            }
+        });
+
+        renderForm(lastValues);
+    </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Tool Safety Guard
+ *
+ * This module classifies MCP tools as read-only or mutating and guards mutating calls
+ * against live environments, so payouts, refunds and similar operations can't be
+ * fired at production with a single click.
+ *
+ * Classification order:
+ * 1. Overrides (`tazapay-mcp.toolSafety.overrides`): user settings may classify a tool either way,
+ *    workspace settings may only mark tools as mutating, so a cloned repository can't skip confirmations
+ * 2. MCP tool annotations (readOnlyHint / destructiveHint)
+ * 3. Schema metadata (`x-tazapay-safety` on the tool's parameters schema)
+ * 4. Name patterns (names starting with get/list/... are read-only unless they also contain create/cancel/...)
+ * Anything that can't be classified is treated as mutating.
+ */
+
+import * as vscode from 'vscode';
+import { EnvironmentProfile } from './environments';
+import { MCPTool } from './mcpClient';
+
+/**
+ * Whether a tool only reads data or may change state (move money, create objects)
+ */
+export type ToolSafety = 'read-only' | 'mutating';
+
+// Verbs at the start of a tool name that indicate a read-only operation
+const READ_ONLY_VERBS = new Set([
+  'get', 'list', 'fetch', 'retrieve', 'search', 'find', 'check', 'view', 'describe',
+  'read', 'show', 'query', 'lookup', 'validate', 'estimate', 'calculate'
+]);
+
+// Verbs anywhere in a tool name that indicate a state-changing operation
+const MUTATING_VERBS = new Set([
+  'create', 'update', 'delete', 'remove', 'cancel', 'refund', 'transfer', 'release', 'capture',
+  'void', 'send', 'initiate', 'approve', 'reject', 'submit', 'confirm', 'charge', 'settle',
+  'withdraw', 'expire', 'add', 'edit', 'set', 'pay'
+]);
+
+/**
+ * Classify a tool as read-only or mutating
+ * @param tool - Tool to classify
+ * @returns ToolSafety - Classification used by the guard
+ */
+export function classifyTool(tool: MCPTool): ToolSafety {
+  const overrides = vscode.workspace.getConfiguration('tazapay-mcp').inspect<Record<string, ToolSafety>>('toolSafety.overrides');
+  if (overrides?.workspaceValue?.[tool.name] === 'mutating' || overrides?.workspaceFolderValue?.[tool.name] === 'mutating') {
+    return 'mutating';
+  }
+  const override = overrides?.globalValue?.[tool.name];
+  if (override === 'read-only' || override === 'mutating') {
+    return override;
+  }
+
+  if (tool.annotations?.readOnlyHint === true) {
+    return 'read-only';
+  }
+  if (tool.annotations?.readOnlyHint === false || tool.annotations?.destructiveHint === true) {
+    return 'mutating';
+  }
+
+  const schemaSafety = tool.parameters?.['x-tazapay-safety'];
+  if (schemaSafety === 'read-only' || schemaSafety === 'mutating') {
+    return schemaSafety;
+  }
+
+  // Split snake_case, kebab-case and camelCase names into words
+  const words = tool.name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word);
+  if (READ_ONLY_VERBS.has(words[0]) && !words.some(word => MUTATING_VERBS.has(word))) {
+    return 'read-only';
+  }
+  return 'mutating';
+}
+
+/**
+ * Check whether mutating calls against live environments are blocked in this workspace
+ */
+export function isLiveMutationBlocked(): boolean {
+  return vscode.workspace.getConfiguration('tazapay-mcp').get<boolean>('blockLiveMutations', false);
+}
+
+/**
+ * Decide whether a tool call may proceed, asking the user when required
+ * Mutating calls against a live environment are blocked by `tazapay-mcp.blockLiveMutations`
+ * or otherwise need a modal confirmation that shows the full payload. The modal is shown even
+ * when the caller asked already (agent mode), since that confirmation can be auto-approved
+ * @param tool - Tool about to be executed
+ * @param parameters - Payload that will be sent
+ * @param environment - Environment the call runs against
+ * @returns Promise<boolean> - true if the call may proceed
+ */
+export async function guardToolExecution(tool: MCPTool, parameters: any, environment: EnvironmentProfile): Promise<boolean> {
+  if (!environment.live || classifyTool(tool) === 'read-only') {
+    return true;
+  }
+
+  if (isLiveMutationBlocked()) {
+    vscode.window.showErrorMessage(
+      `"${tool.name}" changes data and is blocked in the live ${environment.name} environment for this workspace (tazapay-mcp.blockLiveMutations).`
+    );
+    return false;
+  }
+
+  const selection = await vscode.window.showWarningMessage(
+    `Run "${tool.name}" against LIVE ${environment.name}?`,
+    {
+      modal: true,
+      detail: `This tool can move real money or change live data at ${environment.serverUrl}.\n\nPayload:\n${JSON.stringify(parameters, null, 2)}`
+    },
+    `Run in ${environment.name}`
+  );
+  return selection === `Run in ${environment.name}`;
+}
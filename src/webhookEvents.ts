@@ -0,0 +1,296 @@
+/**
+ * Sample Webhook Events
+ *
+ * This module holds the catalog of TazaPay webhook events that can be sent to a local handler
+ * ("TazaPay: Trigger Webhook Event") and builds fresh, signed payloads from it, so handlers can
+ * be exercised without hand-crafted curl requests.
+ *
+ * Built-in event types use the names the extension has always listed for TazaPay webhooks
+ * (`payment.created`, `payment.completed`, `escrow.released`, `dispute.created`) and the same
+ * `<object>.<outcome>` pattern for the others. If your account receives different types, override or add them in the workspace catalog.
+ *
+ * Features:
+ * - Built-in payment, checkout, payout, escrow and dispute events
+ * - Catalog extended or overridden from a workspace JSON file (`tazapay-mcp.webhooks.eventCatalogPath`)
+ * - New ids and timestamps for every payload through `{{id:prefix}}`, `{{now}}` and `{{unix}}` placeholders
+ * - Payloads signed with the scheme checked by the webhook listener (see webhookSignature.ts)
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { ForwardResult, postWebhook } from './webhookReceiver';
+import { getSignatureHeader, signWebhook } from './webhookSignature';
+
+/**
+ * An event type that can be triggered
+ */
+export interface WebhookEventTemplate {
+  type: string;                    // Event type, e.g. "payment.completed"
+  category: string;                // Group shown in the picker (payment, checkout, payout...)
+  description: string;             // One-line explanation
+  data: Record<string, unknown>;   // Event object, with placeholders
+  source?: string;                 // Catalog file the event comes from (undefined for built-in events)
+}
+
+/**
+ * Catalog of built-in and workspace events
+ */
+export interface WebhookEventCatalog {
+  events: WebhookEventTemplate[];  // Events sorted by category, then type
+  errors: string[];                // Problems found in workspace catalog files
+}
+
+// Characters of generated object ids
+const ID_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+// Placeholder tokens in template strings
+const PLACEHOLDER_PATTERN = /\{\{\s*(id:[\w-]+|now|unix)\s*\}\}/g;
+
+// Order of the built-in categories in the picker; other categories follow alphabetically
+const CATEGORY_ORDER = ['payment', 'checkout', 'payout', 'escrow', 'dispute'];
+
+const CUSTOMER = {
+  name: 'Jane Doe',
+  email: 'jane.doe@example.com',
+  country: 'SG'
+};
+
+const PAYMENT = {
+  id: '{{id:pay}}',
+  object: 'payin',
+  amount: 125000,
+  currency: 'USD',
+  customer_details: CUSTOMER,
+  payment_method: { type: 'card', card: { brand: 'visa', last4: '4242' } },
+  reference_id: 'order_10542',
+  transaction_description: 'Order #10542',
+  created_at: '{{now}}'
+};
+
+const CHECKOUT = {
+  id: '{{id:chk}}',
+  object: 'checkout',
+  amount: 125000,
+  invoice_currency: 'USD',
+  customer_details: CUSTOMER,
+  reference_id: 'order_10542',
+  transaction_description: 'Order #10542',
+  url: 'https://checkout.tazapay.com/{{id:chk}}',
+  created_at: '{{now}}'
+};
+
+const PAYOUT = {
+  id: '{{id:pot}}',
+  object: 'payout',
+  amount: 50000,
+  currency: 'USD',
+  beneficiary: '{{id:bnf}}',
+  purpose: 'PYR001',
+  reference_id: 'payout_2024_0087',
+  statement_descriptor: 'Vendor settlement',
+  created_at: '{{now}}'
+};
+
+const ESCROW = {
+  id: '{{id:esc}}',
+  object: 'escrow',
+  amount: 250000,
+  currency: 'USD',
+  buyer: { name: 'Acme Imports Ltd', email: 'buyer@example.com', country: 'SG' },
+  seller: { name: 'Global Parts Co', email: 'seller@example.com', country: 'IN' },
+  release_mechanism: 'marketplace',
+  reference_id: 'escrow_7781',
+  created_at: '{{now}}'
+};
+
+const DISPUTE = {
+  id: '{{id:dsp}}',
+  object: 'dispute',
+  payin: '{{id:pay}}',
+  amount: 125000,
+  currency: 'USD',
+  reason: 'product_not_received',
+  created_at: '{{now}}'
+};
+
+/**
+ * Events available without a workspace catalog
+ */
+export const BUILT_IN_EVENTS: WebhookEventTemplate[] = [
+  { type: 'payment.created', category: 'payment', description: 'A payment was initiated', data: { ...PAYMENT, status: 'pending' } },
+  { type: 'payment.completed', category: 'payment', description: 'A payment was successfully processed', data: { ...PAYMENT, status: 'completed' } },
+  {
+    type: 'payment.failed',
+    category: 'payment',
+    description: 'A payment attempt was declined',
+    data: { ...PAYMENT, status: 'failed', failure_code: 'card_declined', failure_message: 'The card was declined by the issuer' }
+  },
+  {
+    type: 'payment.refunded',
+    category: 'payment',
+    description: 'A payment was refunded',
+    data: { ...PAYMENT, status: 'refunded', refund: { id: '{{id:rfd}}', amount: 125000, status: 'succeeded', created_at: '{{now}}' } }
+  },
+  {
+    type: 'checkout.paid',
+    category: 'checkout',
+    description: 'A checkout session was paid',
+    data: { ...CHECKOUT, payment_status: 'paid', paid_amount: 125000, payin: '{{id:pay}}' }
+  },
+  {
+    type: 'checkout.expired',
+    category: 'checkout',
+    description: 'A checkout session expired unpaid',
+    data: { ...CHECKOUT, payment_status: 'unpaid', status: 'expired', expires_at: '{{now}}' }
+  },
+  { type: 'payout.succeeded', category: 'payout', description: 'A payout reached the beneficiary', data: { ...PAYOUT, status: 'succeeded' } },
+  {
+    type: 'payout.failed',
+    category: 'payout',
+    description: 'A payout could not be delivered',
+    data: { ...PAYOUT, status: 'failed', failure_code: 'invalid_account', failure_message: 'The beneficiary account number is invalid' }
+  },
+  { type: 'payout.reversed', category: 'payout', description: 'A payout was returned by the receiving bank', data: { ...PAYOUT, status: 'reversed' } },
+  { type: 'escrow.created', category: 'escrow', description: 'An escrow was created and awaits funding', data: { ...ESCROW, status: 'awaiting_payment' } },
+  { type: 'escrow.funded', category: 'escrow', description: 'The buyer funded an escrow', data: { ...ESCROW, status: 'funded', payin: '{{id:pay}}' } },
+  {
+    type: 'escrow.released',
+    category: 'escrow',
+    description: 'Escrowed funds were released to the seller',
+    data: { ...ESCROW, status: 'released', payout: '{{id:pot}}', released_at: '{{now}}' }
+  },
+  { type: 'dispute.created', category: 'dispute', description: 'A customer disputed a payment', data: { ...DISPUTE, status: 'needs_response' } },
+  { type: 'dispute.won', category: 'dispute', description: 'A dispute was resolved in your favor', data: { ...DISPUTE, status: 'won' } },
+  { type: 'dispute.lost', category: 'dispute', description: 'A dispute was resolved in the customer\'s favor', data: { ...DISPUTE, status: 'lost' } }
+];
+
+/**
+ * Load the built-in events and those of every workspace folder's catalog file
+ * Workspace events with the same type replace the built-in one
+ * @returns Promise<WebhookEventCatalog> - Events and any catalog problems
+ */
+export async function loadEventCatalog(): Promise<WebhookEventCatalog> {
+  const catalogPath = vscode.workspace.getConfiguration('tazapay-mcp').get<string>('webhooks.eventCatalogPath', '.vscode/tazapay-webhook-events.json');
+  const events = new Map(BUILT_IN_EVENTS.map(event => [event.type, event]));
+  const errors: string[] = [];
+
+  for (const folder of catalogPath ? vscode.workspace.workspaceFolders ?? [] : []) {
+    const uri = vscode.Uri.joinPath(folder.uri, catalogPath);
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+      continue;  // No catalog in this folder
+    }
+
+    const source = vscode.workspace.asRelativePath(uri);
+    try {
+      for (const event of parseCatalog(JSON.parse(text), source)) {
+        events.set(event.type, event);
+      }
+    } catch (error) {
+      errors.push(`${source}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return {
+    events: [...events.values()].sort((a, b) => categoryRank(a.category) - categoryRank(b.category) ||
+      a.category.localeCompare(b.category) || a.type.localeCompare(b.type)),
+    errors
+  };
+}
+
+/**
+ * Build a delivery body for an event, with fresh ids and timestamps
+ * Each distinct placeholder resolves once, so `{{id:pay}}` names the same object throughout the payload
+ * @param template - Event to build
+ * @returns string - JSON body of the sample delivery
+ */
+export function buildEventPayload(template: WebhookEventTemplate): string {
+  const now = new Date();
+  const values = new Map<string, string>();
+  const resolve = (token: string): string => {
+    if (!values.has(token)) {
+      values.set(token, token === 'now' ? now.toISOString()
+        : token === 'unix' ? String(Math.floor(now.getTime() / 1000))
+        : `${token.substring(3)}_${randomId()}`);
+    }
+    return values.get(token)!;
+  };
+
+  const fill = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      // A value that is only {{unix}} becomes a number
+      if (/^\{\{\s*unix\s*\}\}$/.test(value)) {
+        return Number(resolve('unix'));
+      }
+      return value.replace(PLACEHOLDER_PATTERN, (_match, token: string) => resolve(token));
+    }
+    if (Array.isArray(value)) {
+      return value.map(fill);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+    }
+    return value;
+  };
+
+  return JSON.stringify({
+    id: resolve('id:evt'),
+    object: 'event',
+    type: template.type,
+    created_at: resolve('now'),
+    data: fill(template.data)
+  }, null, 2);
+}
+
+/**
+ * Sign an event payload and POST it to a local handler
+ * @param body - Payload from buildEventPayload
+ * @param url - Handler URL
+ * @param secret - Webhook secret (the signature header is left out when undefined)
+ * @param signal - Cancels the request (optional)
+ * @returns Promise<ForwardResult> - The handler's answer
+ * @throws CancelledError if the signal aborted
+ */
+export function sendWebhookEvent(body: string, url: string, secret: string | undefined, signal?: AbortSignal): Promise<ForwardResult> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (secret) {
+    headers[getSignatureHeader()] = signWebhook(body, secret);
+  }
+  return postWebhook(url, body, headers, signal);
+}
+
+/**
+ * Validate the events of a catalog file
+ * @throws Error describing the first invalid entry
+ */
+function parseCatalog(json: unknown, source: string): WebhookEventTemplate[] {
+  if (!Array.isArray(json)) {
+    throw new Error('expected an array of events');
+  }
+  return json.map((entry, index) => {
+    if (!entry || typeof entry !== 'object' || typeof entry.type !== 'string' || !entry.type.trim()) {
+      throw new Error(`event ${index + 1} needs a "type"`);
+    }
+    if (entry.data !== undefined && (typeof entry.data !== 'object' || entry.data === null || Array.isArray(entry.data))) {
+      throw new Error(`"data" of ${entry.type} must be an object`);
+    }
+    return {
+      type: entry.type.trim(),
+      category: typeof entry.category === 'string' && entry.category.trim() ? entry.category.trim() : entry.type.split('.')[0],
+      description: typeof entry.description === 'string' ? entry.description : '',
+      data: entry.data ?? {},
+      source
+    };
+  });
+}
+
+function categoryRank(category: string): number {
+  const index = CATEGORY_ORDER.indexOf(category);
+  return index === -1 ? CATEGORY_ORDER.length : index;
+}
+
+function randomId(): string {
+  return Array.from(crypto.randomBytes(20), byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
+}
@@ -0,0 +1,398 @@
+/**
+ * Local Webhook Receiver
+ *
+ * This module runs a small HTTP listener on the developer's machine that captures TazaPay
+ * webhook deliveries (typically arriving through a tunnel such as ngrok), so they can be
+ * inspected in the "Webhooks" view and replayed against the developer's own handler.
+ *
+ * Features:
+ * - Listener on a configurable port (`tazapay-mcp.webhooks.port`), bound to 127.0.0.1
+ * - Method, path, headers, raw body and signature status captured for every delivery
+ * - Bounded in-memory list of deliveries, newest first
+ * - Forwarding of a delivery, with its original headers, to a local handler URL
+ * - `tazapay-webhook:` documents showing a delivery or its body
+ */
+
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { TIMEOUTS, httpClient } from './httpClient';
+import { SignatureStatus, WebhookSecretStore, getSignatureHeader, verifyWebhookSignature } from './webhookSignature';
+
+// URI scheme for read-only delivery documents
+export const WEBHOOK_SCHEME = 'tazapay-webhook';
+
+// Maximum number of deliveries kept in memory
+const MAX_DELIVERIES = 100;
+
+// Largest request body the listener accepts (bytes)
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Interface the listener binds to
+const LISTEN_HOST = '127.0.0.1';
+
+// Headers describing the original connection, not the delivery; dropped when forwarding
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection', 'content-length', 'host', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade'
+]);
+
+/**
+ * Outcome of forwarding a delivery to a local handler
+ */
+export interface ForwardResult {
+  url: string;          // Handler URL
+  timestamp: number;    // When the delivery was forwarded (ms since epoch)
+  durationMs: number;   // Time until the handler answered or the request failed
+  status?: number;      // Handler's HTTP status (if it answered)
+  body?: string;        // Handler's response body (if it answered)
+  error?: string;       // Failure message (if no answer was received)
+}
+
+/**
+ * A captured webhook delivery
+ */
+export interface WebhookDelivery {
+  id: string;                        // Unique delivery id
+  timestamp: number;                 // Arrival time (ms since epoch)
+  method: string;                    // HTTP method
+  path: string;                      // Request path and query
+  headers: Record<string, string>;   // Request headers (lower-case names)
+  body: string;                      // Raw request body
+  event?: string;                    // Event type from the payload (if it has one)
+  signature: SignatureStatus;        // Signature verification result
+  forwards: ForwardResult[];         // Forwarding attempts, newest first
+}
+
+/**
+ * HTTP listener and in-memory store of webhook deliveries
+ */
+export class WebhookReceiver implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  // Fires when deliveries are captured, forwarded or removed, and when the listener starts or stops
+  private _onDidChangeDeliveries = new vscode.EventEmitter<void>();
+  readonly onDidChangeDeliveries: vscode.Event<void> = this._onDidChangeDeliveries.event;
+
+  // Fires when an open delivery document must be re-rendered (TextDocumentContentProvider)
+  private _onDidChangeDocument = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChangeDocument.event;
+
+  private server: http.Server | undefined;
+  private deliveries: WebhookDelivery[] = [];
+
+  /**
+   * @param secrets - Webhook secret used to verify signatures
+   */
+  constructor(private readonly secrets: WebhookSecretStore) {}
+
+  /**
+   * Port the listener is bound to (undefined when stopped)
+   */
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : undefined;
+  }
+
+  /**
+   * URL the listener is reachable at (undefined when stopped)
+   * Uses the bound address rather than "localhost", which may resolve to ::1 first
+   */
+  get url(): string | undefined {
+    return this.port !== undefined ? `http://${LISTEN_HOST}:${this.port}` : undefined;
+  }
+
+  /**
+   * Whether the listener is running
+   */
+  isRunning(): boolean {
+    return this.server !== undefined;
+  }
+
+  /**
+   * Start listening for deliveries
+   * @param port - Local port to bind
+   * @throws Error if the port is in use or can't be bound
+   */
+  async start(port: number): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        console.error('Failed to capture webhook delivery:', error);
+        if (!response.headersSent) {
+          response.writeHead(500).end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        reject(new Error(error.code === 'EADDRINUSE'
+          ? `Port ${port} is already in use. Change tazapay-mcp.webhooks.port or stop the other process.`
+          : `Could not listen on port ${port}: ${error.message}`));
+      });
+      server.listen(port, LISTEN_HOST, () => resolve());
+    });
+
+    server.on('error', error => console.error('Webhook listener error:', error));
+    this.server = server;
+    this._onDidChangeDeliveries.fire();
+  }
+
+  /**
+   * Stop listening (captured deliveries are kept)
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    this._onDidChangeDeliveries.fire();
+  }
+
+  /**
+   * Get all captured deliveries, newest first
+   */
+  getAll(): WebhookDelivery[] {
+    return this.deliveries;
+  }
+
+  /**
+   * Find a delivery by id
+   */
+  get(id: string): WebhookDelivery | undefined {
+    return this.deliveries.find(delivery => delivery.id === id);
+  }
+
+  /**
+   * Remove a single delivery
+   */
+  remove(id: string): void {
+    this.deliveries = this.deliveries.filter(delivery => delivery.id !== id);
+    this._onDidChangeDeliveries.fire();
+  }
+
+  /**
+   * Remove all deliveries
+   */
+  clear(): void {
+    this.deliveries = [];
+    this._onDidChangeDeliveries.fire();
+  }
+
+  /**
+   * Check every delivery's signature again, e.g. after the webhook secret changed
+   */
+  async reverify(): Promise<void> {
+    const secret = await this.secrets.get();
+    for (const delivery of this.deliveries) {
+      delivery.signature = verifyWebhookSignature(delivery.body, delivery.headers[getSignatureHeader()], secret);
+      this._onDidChangeDocument.fire(this.getDeliveryUri(delivery));
+    }
+    this._onDidChangeDeliveries.fire();
+  }
+
+  /**
+   * Send a delivery to a local handler with its original headers and body
+   * Handler errors (non-2xx statuses, refused connections) are recorded, not thrown
+   * @param delivery - Delivery to forward
+   * @param url - Handler URL
+   * @param signal - Cancels the request (optional)
+   * @returns Promise<ForwardResult> - The handler's answer
+   * @throws CancelledError if the signal aborted
+   */
+  async forward(delivery: WebhookDelivery, url: string, signal?: AbortSignal): Promise<ForwardResult> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(delivery.headers)) {
+      if (!HOP_BY_HOP_HEADERS.has(name)) {
+        headers[name] = value;
+      }
+    }
+
+    const result = await postWebhook(url, delivery.body, headers, signal);
+    delivery.forwards.unshift(result);
+    this._onDidChangeDocument.fire(this.getDeliveryUri(delivery));
+    this._onDidChangeDeliveries.fire();
+    return result;
+  }
+
+  /**
+   * URI of the read-only document showing a delivery
+   * @param delivery - Delivery to show
+   * @param bodyOnly - Show only the (pretty-printed) payload instead of the whole delivery
+   */
+  getDeliveryUri(delivery: WebhookDelivery, bodyOnly = false): vscode.Uri {
+    const time = new Date(delivery.timestamp).toISOString().replace(/[:.]/g, '-');
+    const name = (delivery.event ?? 'webhook').replace(/[^\w.-]/g, '_');
+    return vscode.Uri.from({
+      scheme: WEBHOOK_SCHEME,
+      path: `/${name}-${time}${bodyOnly ? '-body' : ''}.json`,
+      query: delivery.id,
+      fragment: bodyOnly ? 'body' : ''
+    });
+  }
+
+  /**
+   * Render a delivery as JSON for `tazapay-webhook:` documents
+   * Required by TextDocumentContentProvider interface
+   */
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const delivery = this.get(uri.query);
+    if (!delivery) {
+      return '// This webhook delivery is no longer captured';
+    }
+
+    const payload = parseBody(delivery.body);
+    if (uri.fragment === 'body') {
+      return typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2);
+    }
+    return JSON.stringify({
+      event: delivery.event,
+      receivedAt: new Date(delivery.timestamp).toISOString(),
+      request: `${delivery.method} ${delivery.path}`,
+      signature: delivery.signature,
+      signatureScheme: 'HMAC-SHA256 of the raw body with the webhook secret (extension convention, not TazaPay\'s documented scheme)',
+      headers: delivery.headers,
+      body: payload,
+      forwards: delivery.forwards.map(forward => ({
+        url: forward.url,
+        forwardedAt: new Date(forward.timestamp).toISOString(),
+        durationMs: forward.durationMs,
+        status: forward.status,
+        response: forward.body !== undefined ? parseBody(forward.body) : undefined,
+        error: forward.error
+      }))
+    }, null, 2);
+  }
+
+  dispose(): void {
+    this.server?.closeAllConnections();
+    this.server?.close();
+    this.server = undefined;
+    this._onDidChangeDeliveries.dispose();
+    this._onDidChangeDocument.dispose();
+  }
+
+  /**
+   * Capture one incoming request and acknowledge it
+   */
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    if (request.method !== 'POST') {
+      response.writeHead(405, { 'Allow': 'POST', 'Content-Type': 'text/plain' }).end('TazaPay webhook listener: send deliveries with POST\n');
+      return;
+    }
+
+    const body = await readBody(request);
+    if (body === undefined) {
+      response.writeHead(413, { 'Connection': 'close' }).end();
+      request.destroy();
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (value !== undefined) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    const timestamp = Date.now();
+    const delivery: WebhookDelivery = {
+      id: `${timestamp.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      timestamp,
+      method: request.method,
+      path: request.url ?? '/',
+      headers,
+      body,
+      event: eventType(body),
+      signature: verifyWebhookSignature(body, headers[getSignatureHeader()], await this.secrets.get()),
+      forwards: []
+    };
+
+    this.deliveries = [delivery, ...this.deliveries].slice(0, MAX_DELIVERIES);
+    this._onDidChangeDeliveries.fire();
+
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end('{"received":true}');
+  }
+}
+
+/**
+ * POST a webhook body to a handler and record how it answered
+ * Handler errors (non-2xx statuses, refused connections) are returned, not thrown
+ * @param url - Handler URL
+ * @param body - Raw request body
+ * @param headers - Request headers (content type, signature...)
+ * @param signal - Cancels the request (optional)
+ * @returns Promise<ForwardResult> - The handler's answer
+ * @throws CancelledError if the signal aborted
+ */
+export async function postWebhook(url: string, body: string, headers: Record<string, string>, signal?: AbortSignal): Promise<ForwardResult> {
+  const timestamp = Date.now();
+  try {
+    const response = await httpClient.post<string>(url, body, {
+      headers,
+      timeoutMs: TIMEOUTS.webhook,
+      idempotent: false,
+      responseType: 'text',
+      signal,
+      acceptAnyStatus: true
+    });
+    return {
+      url,
+      timestamp,
+      durationMs: Date.now() - timestamp,
+      status: response.status,
+      body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data)
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    return { url, timestamp, durationMs: Date.now() - timestamp, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Read a request body, giving up past MAX_BODY_BYTES
+ * @returns Promise<string | undefined> - The body, or undefined if it was too large
+ */
+function readBody(request: http.IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        request.removeAllListeners('data');
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Parse a JSON body, falling back to the raw text
+ */
+function parseBody(body: string): unknown {
+  try {
+    return body ? JSON.parse(body) : body;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Extract the event type from a webhook payload
+ */
+function eventType(body: string): string | undefined {
+  const payload = parseBody(body) as any;
+  const type = payload?.type ?? payload?.event ?? payload?.event_type;
+  return typeof type === 'string' ? type : undefined;
+}
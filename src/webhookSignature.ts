@@ -0,0 +1,93 @@
+/**
+ * Webhook Signatures
+ *
+ * Signature scheme: the hex HMAC-SHA256 of the raw request body, keyed with the webhook secret,
+ * in the `tazapay-mcp.webhooks.signatureHeader` header (default `x-tazapay-signature`, an optional
+ * `sha256=` prefix is accepted). No published TazaPay signing specification is referenced here, so
+ * treat this as the extension's convention: check the header name and algorithm against the webhook
+ * settings of your TazaPay account. A match only shows the sender used the same secret and scheme;
+ * the UI reports it as an HMAC match, never as a verified TazaPay delivery.
+ * This module computes and checks those signatures for the local webhook listener and the
+ * sample events sent to local handlers.
+ *
+ * Features:
+ * - Signing and checking with one scheme for captured deliveries and sample events
+ * - Constant-time comparison
+ * - Signature header name configurable (`tazapay-mcp.webhooks.signatureHeader`)
+ * - Webhook secret kept in SecretStorage
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+
+// SecretStorage key of the webhook secret
+const WEBHOOK_SECRET_ID = 'tazapay-mcp.webhookSecret';
+
+/**
+ * Result of checking a delivery's signature
+ */
+export type SignatureStatus =
+  | 'matches'     // Signature matches the HMAC computed with the configured secret
+  | 'mismatch'    // Signature doesn't match
+  | 'missing'     // No signature header
+  | 'unchecked';  // No webhook secret configured
+
+/**
+ * Name of the header carrying the signature (lower case)
+ */
+export function getSignatureHeader(): string {
+  return vscode.workspace.getConfiguration('tazapay-mcp').get<string>('webhooks.signatureHeader', 'x-tazapay-signature').toLowerCase();
+}
+
+/**
+ * Compute the signature of a payload
+ * @param body - Raw request body
+ * @param secret - Webhook secret
+ * @returns string - Hex HMAC-SHA256 digest
+ */
+export function signWebhook(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body, 'utf8').digest('hex');
+}
+
+/**
+ * Check the signature of a delivery
+ * Accepts the bare hex digest or a `sha256=` prefixed one
+ * @param body - Raw request body
+ * @param signature - Value of the signature header (undefined if absent)
+ * @param secret - Webhook secret (undefined if not configured)
+ * @returns SignatureStatus - Verification result
+ */
+export function verifyWebhookSignature(body: string, signature: string | undefined, secret: string | undefined): SignatureStatus {
+  if (!signature) {
+    return 'missing';
+  }
+  if (!secret) {
+    return 'unchecked';
+  }
+
+  const expected = Buffer.from(signWebhook(body, secret), 'utf8');
+  const received = Buffer.from(signature.trim().replace(/^sha256=/i, '').toLowerCase(), 'utf8');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received) ? 'matches' : 'mismatch';
+}
+
+/**
+ * Webhook secret in SecretStorage
+ */
+export class WebhookSecretStore {
+  /**
+   * @param secrets - SecretStorage instance from the extension context
+   */
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  get(): Thenable<string | undefined> {
+    return this.secrets.get(WEBHOOK_SECRET_ID);
+  }
+
+  store(secret: string): Thenable<void> {
+    return this.secrets.store(WEBHOOK_SECRET_ID, secret);
+  }
+
+  delete(): Thenable<void> {
+    return this.secrets.delete(WEBHOOK_SECRET_ID);
+  }
+}
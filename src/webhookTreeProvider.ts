@@ -0,0 +1,170 @@
+/**
+ * Webhooks Tree Provider
+ *
+ * This module provides the "Webhooks" tree view listing the deliveries captured by the local
+ * webhook listener, newest first, with their headers, body and signature status.
+ *
+ * Features:
+ * - Event type, arrival time and signature icon for each delivery
+ * - Expandable signature, headers, body and forwarding results
+ * - Click to open the full delivery; context menu actions for forward and delete
+ */
+
+import * as vscode from 'vscode';
+import { ForwardResult, WebhookDelivery, WebhookReceiver } from './webhookReceiver';
+import { SignatureStatus } from './webhookSignature';
+
+// Appended to every signature detail: the check follows the extension's convention, not a TazaPay specification
+const SIGNATURE_CONVENTION = 'The extension checks the HMAC-SHA256 of the raw body, keyed with your webhook secret. ' +
+  'This is the extension\'s convention, not TazaPay\'s documented signing scheme, so a match doesn\'t prove the delivery came from TazaPay.';
+
+// Label, description and icon for each signature status
+const SIGNATURE_DISPLAY: Record<SignatureStatus, { label: string; detail: string; icon: vscode.ThemeIcon }> = {
+  matches: {
+    label: 'HMAC matches',
+    detail: `The signature header matches the HMAC computed with the configured webhook secret. ${SIGNATURE_CONVENTION}`,
+    icon: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+  },
+  mismatch: {
+    label: 'HMAC mismatch',
+    detail: `The signature header doesn't match the HMAC computed with the configured webhook secret. Check the secret and the header name, or the delivery was altered. ${SIGNATURE_CONVENTION}`,
+    icon: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+  },
+  missing: {
+    label: 'No signature',
+    detail: 'The delivery has no signature header (see tazapay-mcp.webhooks.signatureHeader).',
+    icon: new vscode.ThemeIcon('warning', new vscode.ThemeColor('testing.iconQueued'))
+  },
+  unchecked: {
+    label: 'HMAC not checked',
+    detail: `No webhook secret is configured. Run "TazaPay MCP: Set Webhook Secret" to check signatures. ${SIGNATURE_CONVENTION}`,
+    icon: new vscode.ThemeIcon('question')
+  }
+};
+
+/**
+ * Tree item representing one captured delivery
+ */
+export class WebhookDeliveryItem extends vscode.TreeItem {
+  /**
+   * @param delivery - Captured delivery shown by this item
+   */
+  constructor(public readonly delivery: WebhookDelivery) {
+    super(delivery.event ?? `${delivery.method} ${delivery.path}`, vscode.TreeItemCollapsibleState.Collapsed);
+
+    const signature = SIGNATURE_DISPLAY[delivery.signature];
+    this.description = `${new Date(delivery.timestamp).toLocaleTimeString()} · ${signature.label}`;
+    this.iconPath = signature.icon;
+    this.contextValue = 'webhookDelivery';
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${delivery.event ?? 'Webhook delivery'}** — ${signature.label}\n\n`);
+    tooltip.appendMarkdown(`${delivery.method} ${delivery.path} · ${new Date(delivery.timestamp).toLocaleString()}\n\n`);
+    if (delivery.forwards.length > 0) {
+      tooltip.appendMarkdown(`Last forwarded: ${describeForward(delivery.forwards[0])}\n\n`);
+    }
+    this.tooltip = tooltip;
+
+    // Clicking a delivery opens it in full
+    this.command = {
+      command: 'tazapay-mcp.webhooks.open',
+      title: 'Open Delivery',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Tree item grouping the request headers of a delivery
+ */
+class WebhookHeadersItem extends vscode.TreeItem {
+  constructor(public readonly delivery: WebhookDelivery) {
+    super('Headers', vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = `${Object.keys(delivery.headers).length}`;
+    this.iconPath = new vscode.ThemeIcon('list-unordered');
+  }
+}
+
+/**
+ * Tree data provider for the Webhooks view
+ */
+export class WebhookTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+  // Event emitter for notifying VS Code when tree data changes
+  private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private subscription: vscode.Disposable;
+
+  /**
+   * @param receiver - Webhook receiver whose deliveries are displayed
+   */
+  constructor(private readonly receiver: WebhookReceiver) {
+    this.subscription = receiver.onDidChangeDeliveries(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: vscode.TreeItem): Thenable<vscode.TreeItem[]> {
+    if (!element) {
+      return Promise.resolve(this.receiver.getAll().map(delivery => new WebhookDeliveryItem(delivery)));
+    }
+    if (element instanceof WebhookDeliveryItem) {
+      return Promise.resolve(this.getDeliveryDetails(element.delivery));
+    }
+    if (element instanceof WebhookHeadersItem) {
+      return Promise.resolve(Object.entries(element.delivery.headers).map(([name, value]) => {
+        const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.None);
+        item.description = value;
+        item.tooltip = `${name}: ${value}`;
+        return item;
+      }));
+    }
+    return Promise.resolve([]);
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /**
+   * Build the signature, headers, body and forwarding rows of a delivery
+   */
+  private getDeliveryDetails(delivery: WebhookDelivery): vscode.TreeItem[] {
+    const signature = SIGNATURE_DISPLAY[delivery.signature];
+    const signatureItem = new vscode.TreeItem(signature.label, vscode.TreeItemCollapsibleState.None);
+    signatureItem.iconPath = signature.icon;
+    signatureItem.tooltip = signature.detail;
+
+    const bodyItem = new vscode.TreeItem('Body', vscode.TreeItemCollapsibleState.None);
+    bodyItem.description = `${Buffer.byteLength(delivery.body, 'utf8')} bytes`;
+    bodyItem.iconPath = new vscode.ThemeIcon('json');
+    bodyItem.command = {
+      command: 'vscode.open',
+      title: 'Open Body',
+      arguments: [this.receiver.getDeliveryUri(delivery, true)]
+    };
+
+    const forwardItems = delivery.forwards.map(forward => {
+      const item = new vscode.TreeItem(`Forwarded: ${forward.status ?? 'failed'}`, vscode.TreeItemCollapsibleState.None);
+      item.description = `${forward.url} · ${new Date(forward.timestamp).toLocaleTimeString()}`;
+      item.tooltip = describeForward(forward);
+      item.iconPath = forward.status !== undefined && forward.status < 300
+        ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+        : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+      return item;
+    });
+
+    return [signatureItem, new WebhookHeadersItem(delivery), bodyItem, ...forwardItems];
+  }
+}
+
+/**
+ * Summarize a forwarding attempt in one line
+ */
+function describeForward(forward: ForwardResult): string {
+  const outcome = forward.status !== undefined ? `HTTP ${forward.status}` : `failed (${forward.error})`;
+  return `${outcome} from ${forward.url} in ${forward.durationMs} ms`;
+}
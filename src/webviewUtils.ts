@@ -0,0 +1,40 @@
+/**
+ * Shared helpers for the extension's webviews
+ */
+
+/**
+ * Generate a random nonce for the webview Content-Security-Policy
+ * @returns string - 32 character alphanumeric nonce
+ */
+export function getNonce() {
+  let text = '';
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
+}
+
+/**
+ * Escape text for safe interpolation into webview HTML
+ * @param value - Untrusted text (tool names, descriptions, server data)
+ * @returns string - HTML-escaped text
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Serialize data for embedding inside an inline <script> block
+ * Escapes "<" so payloads cannot close the script tag
+ * @param value - JSON-serializable value
+ * @returns string - JavaScript literal
+ */
+export function toScriptJson(value: unknown): string {
+  return JSON.stringify(value ?? null).replace(/</g, '\\u003c');
+}
@@ -5,18 +5,23 @@
  * It provides:
  * - Quick access to Copilot Chat with @tazapay
  * - Authentication interface for TazaPay secret keys
- * - Persistent authentication state management
+ * - Authentication state reported by the TazaPay session
  * - Feature showcase and onboarding
  */
 
 import * as vscode from 'vscode';
+import { SecretKeyStore } from './secretStore';
+import { TazaPaySession } from './session';
+import { getNonce } from './webviewUtils';
 
 export class WelcomeViewProvider implements vscode.WebviewViewProvider {
   private _webviewView?: vscode.WebviewView;  // Reference to the webview for messaging
   
   constructor(
     private readonly _extensionUri: vscode.Uri,        // Extension's URI for resource loading
-    private readonly _context: vscode.ExtensionContext // Extension context for state management
+    private readonly _context: vscode.ExtensionContext, // Extension context for state management
+    private readonly _secretKeyStore: SecretKeyStore,   // Secure storage holding the secret key
+    private readonly _session: TazaPaySession           // Connection whose state the view reports
   ) {}
 
   /**
@@ -165,19 +170,14 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
 
   private async _authenticateWithSecretKey(secretKey: string) {
     try {
-      const config = vscode.workspace.getConfiguration('tazapay-mcp');
-      await config.update('secretKey', secretKey, vscode.ConfigurationTarget.Global);
+      await this._secretKeyStore.store(secretKey);
       
       // Trigger authentication - this will show its own success/error messages
-      await vscode.commands.executeCommand('tazapay-mcp.authenticate');
+      const authenticated = await vscode.commands.executeCommand<boolean>('tazapay-mcp.authenticate');
       
-      // Save authentication state
-      await this._context.globalState.update('tazapay.isAuthenticated', true);
-      await this._context.globalState.update('tazapay.maskedKey', this._maskSecretKey(secretKey));
-      
-      // Send success message back to webview to reset button state (no duplicate message)
+      // Send the outcome back to webview to reset button state (no duplicate message)
       this._sendMessageToWebview('authenticationResult', { 
-        success: true, 
+        success: !!authenticated, 
         maskedKey: this._maskSecretKey(secretKey) 
       });
       
@@ -201,12 +201,8 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
     }
     
     try {
-      const config = vscode.workspace.getConfiguration('tazapay-mcp');
-      await config.update('secretKey', undefined, vscode.ConfigurationTarget.Global);
-      
-      // Clear authentication state
-      await this._context.globalState.update('tazapay.isAuthenticated', false);
-      await this._context.globalState.update('tazapay.maskedKey', undefined);
+      // The session signs out when its key disappears
+      await this._secretKeyStore.delete();
       
       // Send deletion confirmation to webview
       this._sendMessageToWebview('keyDeleted', {});
@@ -218,13 +214,22 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Re-send the authentication state to the webview
+   * Called whenever the session state changes (sign-in, environment switch, rejected key...)
+   */
+  public refreshAuthState() {
+    this._sendCurrentAuthState();
+  }
+
   private async _sendCurrentAuthState() {
-    const isAuthenticated = this._context.globalState.get('tazapay.isAuthenticated', false);
-    const maskedKey = this._context.globalState.get('tazapay.maskedKey', '');
+    // Only report authenticated while the session is actually connected
+    const secretKey = await this._secretKeyStore.get();
+    const isAuthenticated = !!secretKey && this._session.getStatus().state === 'connected';
     
     this._sendMessageToWebview('loadAuthState', {
       authenticated: isAuthenticated,
-      maskedKey: maskedKey
+      maskedKey: secretKey ? this._maskSecretKey(secretKey) : ''
     });
   }
 
@@ -587,12 +592,3 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
 </html>`;
   }
 }
-
-function getNonce() {
-  let text = '';
-  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  for (let i = 0; i < 32; i++) {
-    text += possible.charAt(Math.floor(Math.random() * possible.length));
-  }
-  return text;
-}
\ No newline at end of file